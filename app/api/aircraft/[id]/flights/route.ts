@@ -0,0 +1,96 @@
+export const runtime = 'nodejs';
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { aircraft } from '@/db/schema';
+import { requireVerified } from '@/lib/session';
+import { listFlights } from '@/lib/flightLegs';
+import { eq } from 'drizzle-orm';
+
+// GET /api/aircraft/[id]/flights - Logbook legs for an owned aircraft, newest first
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require verified owner
+    const session = await requireVerified();
+
+    const { id } = await context.params;
+    const aircraftId = parseInt(id, 10);
+
+    if (isNaN(aircraftId)) {
+      return NextResponse.json(
+        { error: 'Invalid aircraft ID' },
+        { status: 400 }
+      );
+    }
+
+    // Find aircraft
+    const [aircraftRecord] = await db
+      .select()
+      .from(aircraft)
+      .where(eq(aircraft.id, aircraftId))
+      .limit(1);
+
+    if (!aircraftRecord) {
+      return NextResponse.json(
+        { error: 'Aircraft not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (aircraftRecord.ownerUserId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 500);
+
+    const legs = await listFlights(aircraftId, limit);
+
+    return NextResponse.json({
+      ok: true,
+      aircraft: {
+        id: aircraftRecord.id,
+        tail: aircraftRecord.tail,
+        icao_hex: aircraftRecord.icaoHex,
+      },
+      flights: legs.map((f) => ({
+        id: f.id,
+        departure_airport: f.departureAirport,
+        arrival_airport: f.arrivalAirport,
+        off_at: f.offAt,
+        on_at: f.onAt,
+        air_time_sec: f.airTimeSec,
+        max_alt_ft: f.maxAltFt,
+        point_count: f.pointCount,
+        track: f.track,
+      })),
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      if (error.message === 'Email not verified') {
+        return NextResponse.json(
+          { error: 'Email not verified' },
+          { status: 403 }
+        );
+      }
+    }
+
+    console.error('[aircraft flights GET] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,93 @@
 export const runtime = 'nodejs';
 import { NextResponse } from 'next/server';
 import { db } from '@/db';
-import { aircraft, guestTokens } from '@/db/schema';
+import { aircraft, aircraftPrivacyEnum, guestTokens, type AircraftPrivacyMode } from '@/db/schema';
 import { requireVerified } from '@/lib/session';
 import { eq, and, sql } from 'drizzle-orm';
 
+// PATCH /api/aircraft/[id] - Update aircraft settings (privacy mode)
+export async function PATCH(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require verified owner
+    const session = await requireVerified();
+
+    const { id } = await context.params;
+    const aircraftId = parseInt(id, 10);
+
+    if (isNaN(aircraftId)) {
+      return NextResponse.json(
+        { error: 'Invalid aircraft ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { privacy_mode } = body;
+
+    if (!aircraftPrivacyEnum.enumValues.includes(privacy_mode)) {
+      return NextResponse.json(
+        { error: 'invalid_input', message: `privacy_mode must be one of: ${aircraftPrivacyEnum.enumValues.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Update only if owned by this user
+    const [updated] = await db
+      .update(aircraft)
+      .set({ privacyMode: privacy_mode as AircraftPrivacyMode })
+      .where(
+        and(
+          eq(aircraft.id, aircraftId),
+          eq(aircraft.ownerUserId, session.user.id)
+        )
+      )
+      .returning();
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Aircraft not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      aircraft: {
+        id: updated.id,
+        tail: updated.tail,
+        icao_hex: updated.icaoHex,
+        privacy_mode: updated.privacyMode,
+        authorized_at: updated.authorizedAt,
+        created_at: updated.createdAt,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      if (error.message === 'Email not verified') {
+        return NextResponse.json(
+          { error: 'Email not verified' },
+          { status: 403 }
+        );
+      }
+    }
+
+    console.error('[aircraft PATCH] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE /api/aircraft/[id] - Delete aircraft
 export async function DELETE(
   request: Request,
@@ -0,0 +1,146 @@
+export const runtime = 'nodejs';
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { aircraft } from '@/db/schema';
+import { requireVerified } from '@/lib/session';
+import { appConfig } from '@/config/app';
+import { savePositions } from '@/lib/positionHistory';
+import { updateFlightLegs } from '@/lib/flightLegs';
+import {
+  IMPORT_FORMATS,
+  TrackImportError,
+  detectImportFormat,
+  parseTrackLog,
+  type ImportFormat,
+} from '@/lib/trackImport';
+import { eq } from 'drizzle-orm';
+
+// POST /api/aircraft/[id]/tracks - Import a GPX, IGC or ForeFlight CSV track log into an owned aircraft's history
+// multipart/form-data: file (required), format (optional, detected from the file otherwise)
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require verified owner
+    const session = await requireVerified();
+
+    const { id } = await context.params;
+    const aircraftId = parseInt(id, 10);
+
+    if (isNaN(aircraftId)) {
+      return NextResponse.json(
+        { error: 'Invalid aircraft ID' },
+        { status: 400 }
+      );
+    }
+
+    // Find aircraft
+    const [aircraftRecord] = await db
+      .select()
+      .from(aircraft)
+      .where(eq(aircraft.id, aircraftId))
+      .limit(1);
+
+    if (!aircraftRecord) {
+      return NextResponse.json(
+        { error: 'Aircraft not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check ownership
+    if (aircraftRecord.ownerUserId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get('file');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'invalid_input', message: 'Upload the track log as the "file" field of a multipart form' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > appConfig.trackImport.maxFileBytes) {
+      return NextResponse.json(
+        { error: 'invalid_input', message: `Track logs are limited to ${Math.round(appConfig.trackImport.maxFileBytes / 1024 / 1024)} MB` },
+        { status: 413 }
+      );
+    }
+
+    const text = await file.text();
+    const requestedFormat = form!.get('format');
+    const format = typeof requestedFormat === 'string' && requestedFormat
+      ? requestedFormat
+      : detectImportFormat(file.name, text);
+
+    if (!format || !IMPORT_FORMATS.includes(format as ImportFormat)) {
+      return NextResponse.json(
+        { error: 'invalid_input', message: `format must be one of: ${IMPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let track;
+    try {
+      track = parseTrackLog(text, format as ImportFormat);
+    } catch (error) {
+      if (error instanceof TrackImportError) {
+        return NextResponse.json(
+          { error: 'invalid_track', message: error.message },
+          { status: 422 }
+        );
+      }
+      throw error;
+    }
+
+    // Timestamps already stored (from providers or an earlier import) are kept as they are
+    const written = await savePositions(aircraftId, track.points, track.format);
+    const start = track.points[0].ts!;
+    const end = track.points[track.points.length - 1].ts!;
+
+    if (written > 0) {
+      console.log(`[positions] ${aircraftRecord.tail}: imported ${written} points from ${track.format}`);
+      await updateFlightLegs(aircraftId, undefined, start);
+    }
+
+    return NextResponse.json({
+      ok: true,
+      format: track.format,
+      points: track.points.length,
+      imported: written,
+      already_stored: track.points.length - written,
+      duplicates: track.duplicates,
+      skipped: track.skipped,
+      start_at: new Date(start * 1000),
+      end_at: new Date(end * 1000),
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      if (error.message === 'Email not verified') {
+        return NextResponse.json(
+          { error: 'Email not verified' },
+          { status: 403 }
+        );
+      }
+    }
+
+    console.error('[aircraft tracks POST] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
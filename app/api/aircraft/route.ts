@@ -96,6 +96,7 @@ export async function POST(request: Request) {
         id: newAircraft.id,
         tail: newAircraft.tail,
         icao_hex: newAircraft.icaoHex,
+        privacy_mode: newAircraft.privacyMode,
         authorized_at: newAircraft.authorizedAt,
         created_at: newAircraft.createdAt,
       },
@@ -143,6 +144,7 @@ export async function GET() {
         id: a.id,
         tail: a.tail,
         icao_hex: a.icaoHex,
+        privacy_mode: a.privacyMode,
         authorized_at: a.authorizedAt,
         created_at: a.createdAt,
       })),
@@ -0,0 +1,80 @@
+export const runtime = 'nodejs';
+import { NextResponse } from 'next/server';
+import { airportCodes, findAirport, getRunways, toAirportInfo } from '@/lib/airports';
+import { listAirportMovements } from '@/lib/flightLegs';
+import { getRowAccess, getViewableAircraft, getViewer, restrictFlight } from '@/lib/trackAccess';
+import type { Flight } from '@/db/schema';
+
+// GET /api/airports/[code] - Airport details, runways and recent movements of the viewer's fleet
+export async function GET(
+  request: Request,
+  context: { params: Promise<{ code: string }> }
+) {
+  try {
+    const { code } = await context.params;
+
+    const airport = await findAirport(code);
+    if (!airport) {
+      return NextResponse.json(
+        { error: 'Airport not found' },
+        { status: 404 }
+      );
+    }
+
+    // Movements only cover aircraft the viewer owns or holds a guest token for
+    const viewer = await getViewer(request);
+    const fleet = await getViewableAircraft(viewer);
+    const byId = new Map(fleet.map(a => [a.id, a]));
+
+    const [runways, movements] = await Promise.all([
+      getRunways(airport),
+      listAirportMovements(airportCodes(airport), fleet.map(a => a.id)),
+    ]);
+
+    // Legs are trimmed like the guest's track view: nothing inside the position delay,
+    // and no airports for coarse positions (a movement here would give them away)
+    const restrict = (flight: Flight) => {
+      const row = byId.get(flight.aircraftId);
+      return row ? restrictFlight(flight, getRowAccess(viewer, row)) : null;
+    };
+    const departures = movements.departures.map(restrict).filter((f): f is Flight => !!f?.departureAirport);
+    const arrivals = movements.arrivals.map(restrict).filter((f): f is Flight => !!f?.arrivalAirport);
+    const toMovement = (flight: Flight) => ({
+      flight_id: flight.id,
+      aircraft_id: flight.aircraftId,
+      tail: byId.get(flight.aircraftId)?.tail ?? null,
+      departure_airport: flight.departureAirport,
+      arrival_airport: flight.arrivalAirport,
+      off_at: flight.offAt,
+      on_at: flight.onAt,
+      air_time_sec: flight.airTimeSec,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      airport: {
+        ...toAirportInfo(airport),
+        ident: airport.ident,
+        iata: airport.iataCode,
+        lid: airport.localCode,
+        type: airport.type,
+        runways: runways.map((r) => ({
+          ident: [r.leIdent, r.heIdent].filter(Boolean).join('/'),
+          length_ft: r.lengthFt,
+          width_ft: r.widthFt,
+          surface: r.surface,
+          lighted: r.lighted,
+          closed: r.closed,
+        })),
+      },
+      departures: departures.map(toMovement),
+      arrivals: arrivals.map(toMovement),
+    });
+  } catch (error) {
+    console.error('[airport GET] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+export const runtime = 'nodejs';
+import { NextResponse } from 'next/server';
+import { searchAirports, toAirportInfo } from '@/lib/airports';
+
+// GET /api/airports?q= - Type-ahead airport search by code, name or city
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const q = (searchParams.get('q') || '').trim().slice(0, 64);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 50);
+
+    if (q.length < 2) {
+      return NextResponse.json(
+        { error: 'Query must be at least 2 characters' },
+        { status: 400 }
+      );
+    }
+
+    const results = await searchAirports(q, limit);
+
+    return NextResponse.json({
+      ok: true,
+      airports: results.map((a) => ({
+        ...toAirportInfo(a),
+        ident: a.ident,
+        iata: a.iataCode,
+        lid: a.localCode,
+        type: a.type,
+      })),
+    });
+  } catch (error) {
+    console.error('[airports GET] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+export const runtime = 'nodejs';
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { geofences } from '@/db/schema';
+import { requireVerified } from '@/lib/session';
+import { eq, and } from 'drizzle-orm';
+
+// DELETE /api/geofences/[id] - Delete a geofence (its evaluation state cascades)
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Require verified owner
+    const session = await requireVerified();
+
+    const { id } = await context.params;
+    const geofenceId = parseInt(id, 10);
+
+    if (isNaN(geofenceId)) {
+      return NextResponse.json(
+        { error: 'Invalid geofence ID' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await db
+      .delete(geofences)
+      .where(
+        and(
+          eq(geofences.id, geofenceId),
+          eq(geofences.ownerUserId, session.user.id)
+        )
+      )
+      .returning({ id: geofences.id });
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Geofence not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      if (error.message === 'Email not verified') {
+        return NextResponse.json(
+          { error: 'Email not verified' },
+          { status: 403 }
+        );
+      }
+    }
+
+    console.error('[geofences DELETE] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,207 @@
+export const runtime = 'nodejs';
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { aircraft, geofences, type Geofence } from '@/db/schema';
+import { requireVerified } from '@/lib/session';
+import { lookupAirport } from '@/lib/statusAdapter';
+import { appConfig } from '@/config/app';
+import { eq, and, count, desc } from 'drizzle-orm';
+
+function toResponse(g: Geofence) {
+  return {
+    id: g.id,
+    name: g.name,
+    aircraft_id: g.aircraftId,
+    kind: g.kind,
+    airport_code: g.airportCode,
+    center_lat: g.centerLat,
+    center_lon: g.centerLon,
+    radius_nm: g.radiusNm,
+    polygon: g.polygon,
+    alert_on_enter: g.alertOnEnter,
+    alert_on_exit: g.alertOnExit,
+    created_at: g.createdAt,
+  };
+}
+
+const isLat = (v: unknown): v is number => typeof v === 'number' && v >= -90 && v <= 90;
+const isLon = (v: unknown): v is number => typeof v === 'number' && v >= -180 && v <= 180;
+
+// POST /api/geofences - Create a geofence
+// Body: { name, aircraft_id?, airport? | center_lat + center_lon | polygon, radius_nm?, alert_on_enter?, alert_on_exit? }
+export async function POST(request: Request) {
+  try {
+    // Require verified owner
+    const session = await requireVerified();
+
+    const body = await request.json();
+    const { aircraft_id, airport, center_lat, center_lon, radius_nm, polygon, alert_on_enter, alert_on_exit } = body;
+    const name = typeof body.name === 'string' ? body.name.replace(/[<>]/g, '').trim() : '';
+
+    if (!name || name.length > 100) {
+      return NextResponse.json(
+        { error: 'invalid_input', message: 'Name is required (max 100 characters)' },
+        { status: 400 }
+      );
+    }
+
+    if (aircraft_id != null && (!Number.isInteger(aircraft_id) || aircraft_id <= 0)) {
+      return NextResponse.json(
+        { error: 'invalid_input', message: 'aircraft_id must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Aircraft is optional (null = all of the owner's aircraft), but must be owned
+    if (aircraft_id != null) {
+      const [owned] = await db
+        .select()
+        .from(aircraft)
+        .where(and(eq(aircraft.id, aircraft_id), eq(aircraft.ownerUserId, session.user.id)))
+        .limit(1);
+
+      if (!owned) {
+        return NextResponse.json(
+          { error: 'Aircraft not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (radius_nm != null && (typeof radius_nm !== 'number' || radius_nm <= 0 || radius_nm > 250)) {
+      return NextResponse.json(
+        { error: 'invalid_input', message: 'radius_nm must be between 0 and 250' },
+        { status: 400 }
+      );
+    }
+
+    // Shape: airport circle, explicit circle, or polygon
+    let shape: Pick<Geofence, 'kind' | 'airportCode' | 'centerLat' | 'centerLon' | 'radiusNm' | 'polygon'>;
+
+    if (airport) {
+      const code = String(airport).trim().toUpperCase();
+      const info = await lookupAirport(code);
+      if (!info || !Number.isFinite(info.lat) || !Number.isFinite(info.lon)) {
+        return NextResponse.json(
+          { error: 'invalid_input', message: `Airport ${code} not found` },
+          { status: 400 }
+        );
+      }
+      shape = {
+        kind: 'circle',
+        airportCode: info.icao || code,
+        centerLat: info.lat!,
+        centerLon: info.lon!,
+        radiusNm: radius_nm ?? appConfig.geofences.defaultAirportRadiusNm,
+        polygon: null,
+      };
+    } else if (Array.isArray(polygon)) {
+      const vertices = polygon.filter((v: unknown) => Array.isArray(v) && isLat(v[0]) && isLon(v[1]));
+      if (vertices.length < 3 || vertices.length !== polygon.length || vertices.length > 100) {
+        return NextResponse.json(
+          { error: 'invalid_input', message: 'polygon must be 3-100 [lat, lon] pairs' },
+          { status: 400 }
+        );
+      }
+      shape = { kind: 'polygon', airportCode: null, centerLat: null, centerLon: null, radiusNm: null, polygon: vertices };
+    } else if (isLat(center_lat) && isLon(center_lon) && radius_nm != null) {
+      shape = { kind: 'circle', airportCode: null, centerLat: center_lat, centerLon: center_lon, radiusNm: radius_nm, polygon: null };
+    } else {
+      return NextResponse.json(
+        { error: 'invalid_input', message: 'Provide an airport, a center_lat/center_lon with radius_nm, or a polygon' },
+        { status: 400 }
+      );
+    }
+
+    // Cap geofences per owner
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(geofences)
+      .where(eq(geofences.ownerUserId, session.user.id));
+
+    if (total >= appConfig.geofences.maxPerOwner) {
+      return NextResponse.json(
+        { error: 'limit_reached', message: `Maximum ${appConfig.geofences.maxPerOwner} geofences` },
+        { status: 409 }
+      );
+    }
+
+    const [fence] = await db
+      .insert(geofences)
+      .values({
+        ownerUserId: session.user.id,
+        aircraftId: aircraft_id ?? null,
+        name,
+        ...shape,
+        alertOnEnter: alert_on_enter !== false,
+        alertOnExit: alert_on_exit !== false,
+      })
+      .returning();
+
+    return NextResponse.json({
+      ok: true,
+      geofence: toResponse(fence),
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      if (error.message === 'Email not verified') {
+        return NextResponse.json(
+          { error: 'Email not verified' },
+          { status: 403 }
+        );
+      }
+    }
+
+    console.error('[geofences POST] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/geofences - List owner's geofences
+export async function GET() {
+  try {
+    // Require verified owner
+    const session = await requireVerified();
+
+    const list = await db
+      .select()
+      .from(geofences)
+      .where(eq(geofences.ownerUserId, session.user.id))
+      .orderBy(desc(geofences.createdAt));
+
+    return NextResponse.json({
+      ok: true,
+      geofences: list.map(toResponse),
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        );
+      }
+      if (error.message === 'Email not verified') {
+        return NextResponse.json(
+          { error: 'Email not verified' },
+          { status: 403 }
+        );
+      }
+    }
+
+    console.error('[geofences GET] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
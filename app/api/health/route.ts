@@ -1,11 +1,19 @@
+export const runtime = "nodejs";
 import { NextResponse } from "next/server";
 import { appConfig } from "@/config/app";
+import { getProviderHealth } from "@/lib/providers/registry";
+import { getUsageSummary, isDegraded } from "@/lib/providers/usage";
 
 export async function GET() {
+  const usage = await getUsageSummary();
+
   return NextResponse.json({
     ok: true,
     service: "trackmybird",
     version: appConfig.version,
     time: new Date().toISOString(),
+    providers: getProviderHealth(),
+    usage,
+    degraded: isDegraded(),
   });
 }
@@ -11,7 +11,7 @@ export async function POST(request: Request) {
   try {
     const session = await requireAuth();
     const body = await request.json();
-    const { aircraft_ids, nickname, duration } = body;
+    const { aircraft_ids, nickname, duration, delay_minutes, coarse_radius_nm } = body;
 
     // Validate input
     if (!aircraft_ids || !Array.isArray(aircraft_ids) || aircraft_ids.length === 0) {
@@ -21,6 +21,20 @@ export async function POST(request: Request) {
       );
     }
 
+    // Optional view restrictions for this guest
+    if (delay_minutes != null && (!Number.isFinite(delay_minutes) || delay_minutes < 0 || delay_minutes > 24 * 60)) {
+      return NextResponse.json(
+        { error: 'Delay must be between 0 and 1440 minutes' },
+        { status: 400 }
+      );
+    }
+    if (coarse_radius_nm != null && (!Number.isFinite(coarse_radius_nm) || coarse_radius_nm < 0 || coarse_radius_nm > 100)) {
+      return NextResponse.json(
+        { error: 'Coarse position radius must be between 0 and 100 nm' },
+        { status: 400 }
+      );
+    }
+
     // Verify all aircraft belong to the user
     const userAircraft = await db
       .select()
@@ -58,6 +72,8 @@ export async function POST(request: Request) {
         aircraftIds: aircraft_ids,
         nickname: nickname || null,
         expiresAt,
+        delaySeconds: delay_minutes ? Math.round(delay_minutes * 60) : null,
+        coarseRadiusNm: coarse_radius_nm || null,
         revoked: false,
         lastViewAt: null,
       })
@@ -176,6 +192,8 @@ export async function GET(request: Request) {
         aircraft: aircraftDetails,
         aircraft_count: aircraftDetails.length,
         duration: durationLabel,
+        delay_minutes: token.delaySeconds ? Math.round(token.delaySeconds / 60) : null,
+        coarse_radius_nm: token.coarseRadiusNm,
         status,
         last_view_at: token.lastViewAt,
         created_at: token.createdAt,
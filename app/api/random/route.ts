@@ -1,3 +1,4 @@
+export const runtime = "nodejs";
 import { NextResponse } from "next/server";
 import { randomLimiter, getClientId } from "@/lib/rateLimiter";
 
@@ -16,8 +17,8 @@ import { randomLimiter, getClientId } from "@/lib/rateLimiter";
 export async function GET(req: Request) {
   // Check rate limit (6 requests per minute)
   const clientId = getClientId(req);
-  if (!randomLimiter.check(clientId)) {
-    const status = randomLimiter.getStatus(clientId);
+  const status = await randomLimiter.check(clientId);
+  if (!status.allowed) {
     return NextResponse.json(
       {
         error: "rate_limited",
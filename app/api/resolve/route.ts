@@ -1,3 +1,4 @@
+export const runtime = "nodejs";
 import { NextResponse } from "next/server";
 import { nNumberToIcao, isValidNNumber } from "@/lib/nnumber-converter";
 import { resolveLimiter, getClientId } from "@/lib/rateLimiter";
@@ -5,8 +6,8 @@ import { resolveLimiter, getClientId } from "@/lib/rateLimiter";
 export async function GET(req: Request) {
   // Check rate limit (30 requests per minute)
   const clientId = getClientId(req);
-  if (!resolveLimiter.check(clientId)) {
-    const status = resolveLimiter.getStatus(clientId);
+  const status = await resolveLimiter.check(clientId);
+  if (!status.allowed) {
     return NextResponse.json(
       {
         error: "rate_limited",
@@ -0,0 +1,125 @@
+export const runtime = 'nodejs';
+import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { aircraft } from "@/db/schema";
+import { inArray } from "drizzle-orm";
+import { getCurrentStatus } from "@/lib/statusSnapshots";
+import { summarizeStatus } from "@/lib/statusSummary";
+import { trackBatchLimiter, getClientId } from "@/lib/rateLimiter";
+import {
+  getRowAccess,
+  getViewer,
+  resolveTrackAccess,
+  type TrackAccess,
+} from "@/lib/trackAccess";
+
+const MAX_BATCH_SIZE = 50;
+
+function parseList(value: string | null): string[] {
+  return Array.from(new Set((value || "").split(",").map((v) => v.trim()).filter(Boolean)));
+}
+
+// Look up one aircraft the same way /api/track does; errors are reported per aircraft
+async function lookup(hex: string, access: TrackAccess) {
+  // Denials look the same as an unknown aircraft so registration isn't revealed
+  if (!access.allowed) return { error: "unknown" };
+
+  try {
+    const status = await getCurrentStatus({ hex });
+    return summarizeStatus(status, access);
+  } catch (error: any) {
+    const errorMsg = error.message || String(error);
+
+    if (errorMsg.startsWith('rate_limited:')) {
+      return { error: "rate_limited", source: errorMsg.split(':')[1] };
+    }
+    if (errorMsg.includes('not found') || errorMsg.includes('no track data')) {
+      return { error: "unknown" };
+    }
+
+    console.error('[TRACK BATCH ERROR]', hex, errorMsg);
+    return { error: "track_error" };
+  }
+}
+
+// GET /api/track/batch?hex=a1b2c3,a4d5e6&ids=1,2 - Compact status (no point history) for several aircraft
+// hex and ids: registered aircraft the caller owns or has guest access to. Anything else is
+// reported as unknown, so anonymous callers can't fan out provider lookups through this route
+export async function GET(req: Request) {
+  // Check rate limit (10 requests per minute)
+  const clientId = getClientId(req);
+  const limit = await trackBatchLimiter.check(clientId);
+  if (!limit.allowed) {
+    return NextResponse.json(
+      {
+        error: "rate_limited",
+        message: "Too many requests. Maximum 10 requests per minute.",
+        retryAfter: Math.ceil(limit.resetMs / 1000),
+      },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': String(Math.ceil(limit.resetMs / 1000)),
+          'X-RateLimit-Limit': '10',
+          'X-RateLimit-Remaining': String(limit.remaining),
+          'X-RateLimit-Reset': String(Date.now() + limit.resetMs),
+        },
+      }
+    );
+  }
+
+  const { searchParams } = new URL(req.url);
+  const hexes = parseList(searchParams.get("hex")).map((h) => h.toLowerCase());
+  const ids = parseList(searchParams.get("ids")).map((id) => parseInt(id, 10));
+
+  if (hexes.length === 0 && ids.length === 0) {
+    return NextResponse.json({
+      message: "Either hex or ids parameter is required."
+    }, { status: 400 });
+  }
+
+  if (hexes.length + ids.length > MAX_BATCH_SIZE) {
+    return NextResponse.json({
+      message: `At most ${MAX_BATCH_SIZE} aircraft per request.`
+    }, { status: 400 });
+  }
+
+  if (hexes.some((h) => !/^[0-9a-f]{6}$/.test(h)) || ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+    return NextResponse.json({
+      message: "Invalid hex code or aircraft ID. Hex codes are 6 hexadecimal characters, IDs positive integers."
+    }, { status: 400 });
+  }
+
+  try {
+    const viewer = await getViewer(req);
+
+    const rows = ids.length > 0
+      ? await db.select().from(aircraft).where(inArray(aircraft.id, ids))
+      : [];
+
+    const [byHex, byId] = await Promise.all([
+      Promise.all(hexes.map(async (hex) => {
+        // Same US-only rule as /api/track
+        if (!hex.startsWith('a')) return { hex, error: "unsupported" };
+        // Only registered aircraft the caller may see (not public or unregistered ones)
+        const access = await resolveTrackAccess(viewer, { hex });
+        if (!access.row) return { hex, error: "unknown" };
+        return { hex, ...await lookup(hex, access) };
+      })),
+      Promise.all(ids.map(async (id) => {
+        const row = rows.find((r) => r.id === id);
+        if (!row) return { id, error: "unknown" };
+        return { id, ...await lookup(row.icaoHex.toLowerCase(), getRowAccess(viewer, row)) };
+      })),
+    ]);
+
+    return NextResponse.json({ aircraft: [...byHex, ...byId] });
+  } catch (error: any) {
+    const errorMsg = error.message || String(error);
+    console.error('[TRACK BATCH ERROR]', errorMsg, error);
+    return NextResponse.json(
+      { message: "track_error", error: errorMsg },
+      { status: 500 }
+    );
+  }
+}
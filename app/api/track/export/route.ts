@@ -0,0 +1,120 @@
+export const runtime = 'nodejs';
+import { NextResponse } from "next/server";
+import { getCurrentStatus } from "@/lib/statusSnapshots";
+import { getFlight } from "@/lib/flightLegs";
+import { getPositions } from "@/lib/positionHistory";
+import { lookupAirport } from "@/lib/statusAdapter";
+import {
+  applyViewRestrictions,
+  getAircraftRowAccess,
+  getTrackAccess,
+  restrictFlight,
+  restrictPoints,
+} from "@/lib/trackAccess";
+import {
+  EXPORT_FORMATS,
+  renderTrack,
+  trackFromStatus,
+  type ExportFormat,
+  type ExportPlacemark,
+  type ExportTrack,
+} from "@/lib/trackExport";
+
+// A past leg with its stored positions, or null if it doesn't exist / isn't viewable
+async function exportFlight(req: Request, flightId: number): Promise<ExportTrack | null> {
+  const stored = await getFlight(flightId);
+  if (!stored) return null;
+
+  const access = await getAircraftRowAccess(req, stored.aircraftId);
+  const flight = access.allowed ? restrictFlight(stored, access) : null;
+  if (!flight) return null;
+
+  const points = await getPositions(stored.aircraftId, {
+    since: Math.floor(stored.offAt.getTime() / 1000),
+    until: stored.onAt ? Math.floor(stored.onAt.getTime() / 1000) : undefined,
+  });
+
+  const placemarks: ExportPlacemark[] = [];
+  for (const [code, kind] of [[flight.departureAirport, 'origin'], [flight.arrivalAirport, 'destination']] as const) {
+    const info = code ? await lookupAirport(code) : null;
+    if (info && Number.isFinite(info.lat) && Number.isFinite(info.lon)) {
+      placemarks.push({ name: `${code} - ${info.name}`, kind, lat: info.lat!, lon: info.lon! });
+    }
+  }
+
+  const route = `${flight.departureAirport || '?'} → ${flight.arrivalAirport || '?'}`;
+  return {
+    name: `${access.row!.tail} ${route} ${flight.offAt.toISOString().slice(0, 10)}`,
+    points: restrictPoints(points, access),
+    placemarks,
+  };
+}
+
+// GET /api/track/export?format=gpx|kml|csv&hex=|tail= (live track) or &flight= (logbook leg)
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const format = (searchParams.get("format") || "").toLowerCase() as ExportFormat;
+  const hex = searchParams.get("hex")?.toLowerCase() || "";
+  const tail = searchParams.get("tail")?.toUpperCase() || "";
+  const flightId = searchParams.get("flight") ? parseInt(searchParams.get("flight")!, 10) : null;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({
+      message: `Format must be one of: ${EXPORT_FORMATS.join(", ")}.`
+    }, { status: 400 });
+  }
+
+  if (flightId === null && !hex && !tail) {
+    return NextResponse.json({
+      message: "Either hex, tail or flight parameter is required."
+    }, { status: 400 });
+  }
+
+  if ((flightId !== null && isNaN(flightId)) || (hex && !/^[0-9a-f]{6}$/.test(hex))) {
+    return NextResponse.json({ message: "Invalid flight ID or hex code." }, { status: 400 });
+  }
+
+  try {
+    let track: ExportTrack | null;
+
+    if (flightId !== null) {
+      track = await exportFlight(req, flightId);
+    } else {
+      // Anyone who can view the track can export it, with the same delay and coarse position rules
+      const access = await getTrackAccess(req, { hex, tail });
+      track = access.allowed
+        ? trackFromStatus(applyViewRestrictions(
+            await getCurrentStatus({ hex: hex || undefined, tail: tail || undefined }),
+            access
+          ))
+        : null;
+    }
+
+    // Same response as an unknown aircraft so registration isn't revealed
+    if (!track) {
+      return NextResponse.json({ error: "unknown" }, { status: 404 });
+    }
+
+    const { body, contentType } = renderTrack(track, format);
+    const filename = `${track.name.replace(/[^A-Za-z0-9-]+/g, "_").replace(/^_+|_+$/g, "") || "track"}.${format}`;
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: any) {
+    const errorMsg = error.message || String(error);
+    if (errorMsg.includes('not found') || errorMsg.includes('no track data')) {
+      return NextResponse.json({ error: "unknown" }, { status: 404 });
+    }
+
+    console.error('[TRACK EXPORT ERROR]', errorMsg, error);
+    return NextResponse.json(
+      { message: "track_error", error: errorMsg },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+export const runtime = 'nodejs';
+import { NextResponse } from "next/server";
+import { getFlight } from "@/lib/flightLegs";
+import { getPositions } from "@/lib/positionHistory";
+import { getAircraftRowAccess, restrictFlight, restrictPoints } from "@/lib/trackAccess";
+
+// GET /api/track/flights/[id] - A past leg with its stored positions (for replay)
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const flightId = parseInt(id, 10);
+
+  if (isNaN(flightId)) {
+    return NextResponse.json({ message: "Invalid flight ID" }, { status: 400 });
+  }
+
+  try {
+    const stored = await getFlight(flightId);
+    if (!stored) {
+      return NextResponse.json({ error: "unknown" }, { status: 404 });
+    }
+
+    const access = await getAircraftRowAccess(req, stored.aircraftId);
+    const flight = access.allowed ? restrictFlight(stored, access) : null;
+    if (!flight) {
+      return NextResponse.json({ error: "unknown" }, { status: 404 });
+    }
+
+    const points = await getPositions(stored.aircraftId, {
+      since: Math.floor(stored.offAt.getTime() / 1000),
+      until: stored.onAt ? Math.floor(stored.onAt.getTime() / 1000) : undefined,
+    });
+
+    return NextResponse.json({
+      id: flight.id,
+      departure_airport: flight.departureAirport,
+      arrival_airport: flight.arrivalAirport,
+      off_at: flight.offAt,
+      on_at: flight.onAt,
+      air_time_sec: flight.airTimeSec,
+      max_alt_ft: flight.maxAltFt,
+      points: restrictPoints(points, access),
+    });
+  } catch (error: any) {
+    console.error('[TRACK FLIGHT ERROR]', error);
+    return NextResponse.json(
+      { message: "track_error", error: error.message || String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+export const runtime = 'nodejs';
+import { NextResponse } from "next/server";
+import { listFlights } from "@/lib/flightLegs";
+import { getTrackAccess, restrictFlight } from "@/lib/trackAccess";
+
+// GET /api/track/flights?hex= - Past logbook legs for a registered aircraft (for replay)
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const hex = searchParams.get("hex")?.toLowerCase() || "";
+
+  if (!/^[0-9a-f]{6}$/.test(hex)) {
+    return NextResponse.json({
+      message: "Invalid hex code format. Must be 6 hexadecimal characters."
+    }, { status: 400 });
+  }
+
+  try {
+    // History only exists for owner-registered aircraft, and only the owner or their guests see it
+    const access = await getTrackAccess(req, { hex });
+    if (!access.allowed) {
+      return NextResponse.json({ error: "unknown" }, { status: 404 });
+    }
+    if (!access.row) {
+      return NextResponse.json({ flights: [] });
+    }
+
+    // Legs inside a guest's position delay are hidden or cut short like their positions
+    const legs = (await listFlights(access.row.id, 20))
+      .map((f) => restrictFlight(f, access))
+      .filter((f) => f !== null);
+
+    return NextResponse.json({
+      flights: legs.map((f) => ({
+        id: f.id,
+        departure_airport: f.departureAirport,
+        arrival_airport: f.arrivalAirport,
+        off_at: f.offAt,
+        on_at: f.onAt,
+        air_time_sec: f.airTimeSec,
+        max_alt_ft: f.maxAltFt,
+      })),
+    });
+  } catch (error: any) {
+    console.error('[TRACK FLIGHTS ERROR]', error);
+    return NextResponse.json(
+      { message: "track_error", error: error.message || String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
+export const runtime = 'nodejs';
 import { NextResponse } from "next/server";
-import { getFlightStatus } from "@/lib/statusAdapter";
+import { getCurrentStatus } from "@/lib/statusSnapshots";
+import { applyViewRestrictions, getTrackAccess } from "@/lib/trackAccess";
 
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
@@ -28,9 +30,20 @@ export async function GET(req: Request) {
   }
 
   try {
-    const status = await getFlightStatus({ hex: hex || undefined, tail: tail || undefined });
+    // Registered aircraft need the owner's session or a guest token covering them
+    // Denials look the same as an unknown aircraft so registration isn't revealed
+    const access = await getTrackAccess(req, { hex, tail });
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: "unknown" },
+        { status: 404 }
+      );
+    }
+
+    // Registered aircraft come from the stored snapshot while it's current; history is recorded on live lookups
+    const status = await getCurrentStatus({ hex: hex || undefined, tail: tail || undefined });
     
-    return NextResponse.json(status);
+    return NextResponse.json(applyViewRestrictions(status, access));
   } catch (error: any) {
     const errorMsg = error.message || String(error);
     console.error('[TRACK ERROR]', errorMsg, error);
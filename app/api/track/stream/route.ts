@@ -0,0 +1,136 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+import { NextResponse } from "next/server";
+import { appConfig } from "@/config/app";
+import { subscribeToAircraft } from "@/lib/liveHub";
+import { applyViewRestrictions, getViewer, refreshViewer, resolveTrackAccess } from "@/lib/trackAccess";
+import type { FlightStatus } from "@/lib/statusAdapter";
+
+// Fields that change the flight shown, as opposed to new track points
+function flightKey(status: FlightStatus): string {
+  return `${status.firstSeen}|${status.originAirport}|${status.destinationAirport}`;
+}
+
+// GET /api/track/stream?hex= - Server-Sent Events with live updates for one aircraft
+// Events: "status" (full FlightStatus), "update" (FlightStatus with only new points),
+// "stream-error" (provider error, stream stays open), "denied" (access lost, stream closes)
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const hex = searchParams.get("hex")?.toLowerCase() || "";
+
+  if (!/^[0-9a-f]{6}$/.test(hex)) {
+    return NextResponse.json({
+      message: "Invalid hex code format. Must be 6 hexadecimal characters."
+    }, { status: 400 });
+  }
+
+  if (!hex.startsWith('a')) {
+    return NextResponse.json({
+      message: "This app currently supports US-registered aircraft only. US aircraft hex codes start with 'A'."
+    }, { status: 400 });
+  }
+
+  // Same access rules as /api/track (EventSource sends the guest cookie, not headers)
+  const viewer = await getViewer(req);
+  const access = await resolveTrackAccess(viewer, { hex });
+  if (!access.allowed) {
+    return NextResponse.json({ error: "unknown" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      let lastSentTs = 0;
+      let lastFlightKey: string | null = null;
+      let lastEta: number | null = null;
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      // Re-checked on every broadcast: a revoked or expired guest token, a logged-out session
+      // or the owner making the aircraft private ends the stream, and a changed privacy mode
+      // or token delay applies to the next message
+      const checkAccess = async () => {
+        const current = await resolveTrackAccess(await refreshViewer(viewer), { hex });
+        if (!current.allowed) {
+          send("denied", { error: "unknown" });
+          cleanup();
+          return null;
+        }
+        return current;
+      };
+
+      // Broadcasts are handled one at a time so the access check can't reorder them
+      let queue: Promise<void> = Promise.resolve();
+
+      const unsubscribe = subscribeToAircraft(hex, ({ status: liveStatus, error }) => {
+        queue = queue.then(async () => {
+          if (closed) return;
+          const current = await checkAccess();
+          if (!current) return;
+
+          if (error || !liveStatus) {
+            send("stream-error", { message: error });
+            return;
+          }
+
+          const status = applyViewRestrictions(liveStatus, current);
+
+          const newestTs = status.points.reduce((max, p) => Math.max(max, p.ts ?? 0), 0);
+
+          // First message, or the provider switched to a different flight: send everything
+          if (lastFlightKey === null || flightKey(status) !== lastFlightKey) {
+            send("status", status);
+          } else {
+            const newPoints = status.points.filter((p) => (p.ts ?? 0) > lastSentTs);
+            // Only push when there's something new (points or a revised ETA)
+            if (newPoints.length > 0 || status.lastSeen !== lastEta) {
+              send("update", { ...status, points: newPoints });
+            }
+          }
+
+          lastFlightKey = flightKey(status);
+          lastEta = status.lastSeen;
+          lastSentTs = Math.max(lastSentTs, newestTs);
+        }).catch((err) => {
+          console.error('[TRACK STREAM ERROR]', err);
+        });
+      });
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": keepalive\n\n"));
+      }, appConfig.live.heartbeatMs);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      req.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
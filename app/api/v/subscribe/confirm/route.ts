@@ -0,0 +1,46 @@
+export const runtime = 'nodejs';
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { guestSubscriptions } from '@/db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { parseConfirmationToken } from '@/lib/guestSubscriptions';
+
+// GET /api/v/subscribe/confirm?token= - Link in subscription confirmation emails
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const subscriptionId = parseConfirmationToken(searchParams.get('token') || '');
+
+    const [subscription] = subscriptionId
+      ? await db
+          .select({ id: guestSubscriptions.id })
+          .from(guestSubscriptions)
+          .where(eq(guestSubscriptions.id, subscriptionId))
+          .limit(1)
+      : [];
+
+    // Also covers subscriptions unsubscribed before they were confirmed
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'Invalid confirmation link' },
+        { status: 400 }
+      );
+    }
+
+    await db
+      .update(guestSubscriptions)
+      .set({ confirmedAt: new Date() })
+      .where(and(eq(guestSubscriptions.id, subscription.id), isNull(guestSubscriptions.confirmedAt)));
+
+    // Redirect to confirmation page (use actual host from headers for proxy environments)
+    const host = request.headers.get('host') || new URL(request.url).host;
+    const proto = request.headers.get('x-forwarded-proto') || 'http';
+    return NextResponse.redirect(`${proto}://${host}/subscribed`);
+  } catch (error) {
+    console.error('[v/subscribe/confirm] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+export const runtime = 'nodejs';
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { aircraft, guestSubscriptions } from '@/db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { appConfig } from '@/config/app';
+import { isValidEmail } from '@/lib/auth';
+import { sendSubscriptionConfirmationEmail } from '@/lib/email';
+import {
+  countPendingSubscriptions,
+  createConfirmationToken,
+  createUnsubscribeToken,
+} from '@/lib/guestSubscriptions';
+import { subscribeLimiter, subscribeTokenLimiter, getClientId, type RateLimitResult } from '@/lib/rateLimiter';
+import { checkGuestToken } from '@/lib/trackAccess';
+
+function rateLimited(status: RateLimitResult) {
+  return NextResponse.json(
+    {
+      error: 'Too many subscription requests. Please try again later.',
+      retryAfter: Math.ceil(status.resetMs / 1000),
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(Math.ceil(status.resetMs / 1000)) },
+    }
+  );
+}
+
+// POST /api/v/subscribe - Subscribe an email to departed/arrived notifications for a guest token's aircraft
+// New addresses get a confirmation link and receive nothing until they follow it
+export async function POST(request: Request) {
+  try {
+    const clientLimit = await subscribeLimiter.check(getClientId(request));
+    if (!clientLimit.allowed) return rateLimited(clientLimit);
+
+    const body = await request.json();
+    const { token_hash, departed, arrived } = body;
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+
+    if (!token_hash) {
+      return NextResponse.json(
+        { error: 'Token hash is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidEmail(email)) {
+      return NextResponse.json(
+        { error: 'Please enter a valid email address' },
+        { status: 400 }
+      );
+    }
+
+    const tokenLimit = await subscribeTokenLimiter.check(String(token_hash));
+    if (!tokenLimit.allowed) return rateLimited(tokenLimit);
+
+    // Same revoked/expired/dormant checks as /api/v/validate
+    const check = await checkGuestToken(token_hash);
+    if (!check.token) {
+      return NextResponse.json(
+        { error: check.error },
+        { status: check.status }
+      );
+    }
+    const token = check.token;
+
+    const notifyDeparted = departed !== false;
+    const notifyArrived = arrived !== false;
+
+    const [existing] = await db
+      .select()
+      .from(guestSubscriptions)
+      .where(and(eq(guestSubscriptions.guestTokenId, token.id), eq(guestSubscriptions.email, email)))
+      .limit(1);
+
+    // Limits how many confirmation emails one address can be sent through different links
+    if (!existing && await countPendingSubscriptions(email) >= appConfig.subscriptions.maxPendingPerEmail) {
+      return NextResponse.json(
+        { error: 'This address has too many unconfirmed subscriptions. Confirm one of them first.' },
+        { status: 429 }
+      );
+    }
+
+    // Re-subscribing the same email updates its preferences
+    const [subscription] = await db
+      .insert(guestSubscriptions)
+      .values({
+        guestTokenId: token.id,
+        email,
+        notifyDeparted,
+        notifyArrived,
+      })
+      .onConflictDoUpdate({
+        target: [guestSubscriptions.guestTokenId, guestSubscriptions.email],
+        set: { notifyDeparted, notifyArrived },
+      })
+      .returning();
+
+    const confirmed = !!subscription.confirmedAt;
+    if (!confirmed) {
+      const aircraftIds = Array.isArray(token.aircraftIds) ? token.aircraftIds as number[] : [];
+      const tails = aircraftIds.length > 0
+        ? (await db.select().from(aircraft).where(inArray(aircraft.id, aircraftIds))).map(ac => ac.tail)
+        : [];
+
+      const host = request.headers.get('host') || new URL(request.url).host;
+      const proto = request.headers.get('x-forwarded-proto') || 'http';
+      try {
+        await sendSubscriptionConfirmationEmail(
+          email,
+          tails,
+          createConfirmationToken(subscription.id),
+          createUnsubscribeToken(subscription.id),
+          `${proto}://${host}`
+        );
+      } catch (emailError) {
+        console.error('[v/subscribe] Failed to send confirmation email:', emailError);
+      }
+    }
+
+    return NextResponse.json({
+      ok: true,
+      confirmed,
+      departed: subscription.notifyDeparted,
+      arrived: subscription.notifyArrived,
+    });
+  } catch (error) {
+    console.error('[v/subscribe] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
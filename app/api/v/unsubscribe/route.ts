@@ -0,0 +1,61 @@
+export const runtime = 'nodejs';
+import { NextResponse } from 'next/server';
+import { db } from '@/db';
+import { guestSubscriptions } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { parseUnsubscribeToken } from '@/lib/guestSubscriptions';
+
+async function unsubscribe(request: Request): Promise<boolean> {
+  const { searchParams } = new URL(request.url);
+  const subscriptionId = parseUnsubscribeToken(searchParams.get('token') || '');
+  if (!subscriptionId) return false;
+
+  await db
+    .delete(guestSubscriptions)
+    .where(eq(guestSubscriptions.id, subscriptionId));
+
+  return true;
+}
+
+// GET /api/v/unsubscribe?token= - Link in notification emails
+export async function GET(request: Request) {
+  try {
+    if (!(await unsubscribe(request))) {
+      return NextResponse.json(
+        { error: 'Invalid unsubscribe link' },
+        { status: 400 }
+      );
+    }
+
+    // Redirect to confirmation page (use actual host from headers for proxy environments)
+    const host = request.headers.get('host') || new URL(request.url).host;
+    const proto = request.headers.get('x-forwarded-proto') || 'http';
+    return NextResponse.redirect(`${proto}://${host}/unsubscribed`);
+  } catch (error) {
+    console.error('[v/unsubscribe] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/v/unsubscribe?token= - One-click unsubscribe from mail clients (List-Unsubscribe-Post)
+export async function POST(request: Request) {
+  try {
+    if (!(await unsubscribe(request))) {
+      return NextResponse.json(
+        { error: 'Invalid unsubscribe link' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error('[v/unsubscribe] Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
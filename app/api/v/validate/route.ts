@@ -2,7 +2,8 @@ export const runtime = 'nodejs';
 import { NextResponse } from 'next/server';
 import { db } from '@/db';
 import { guestTokens, aircraft } from '@/db/schema';
-import { eq, and, inArray } from 'drizzle-orm';
+import { eq, inArray } from 'drizzle-orm';
+import { checkGuestToken, GUEST_COOKIE_NAME } from '@/lib/trackAccess';
 
 export async function POST(request: Request) {
   try {
@@ -16,55 +17,16 @@ export async function POST(request: Request) {
       );
     }
 
-    // Find the guest token by hash
-    const [token] = await db
-      .select()
-      .from(guestTokens)
-      .where(eq(guestTokens.tokenHash, token_hash))
-      .limit(1);
-
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Invalid token' },
-        { status: 404 }
-      );
-    }
-
-    // Check if revoked
-    if (token.revoked) {
+    // Check the token is valid, not revoked, not expired and not dormant
+    const check = await checkGuestToken(token_hash);
+    if (!check.token) {
       return NextResponse.json(
-        { error: 'This access has been revoked' },
-        { status: 403 }
+        { error: check.error },
+        { status: check.status }
       );
     }
-
-    // Check if expired
+    const token = check.token;
     const now = new Date();
-    if (token.expiresAt && token.expiresAt < now) {
-      return NextResponse.json(
-        { error: 'This access has expired' },
-        { status: 403 }
-      );
-    }
-
-    // Check if dormant (>6 months since last view or creation) and auto-revoke
-    const sixMonthsAgo = new Date(now.getTime() - 6 * 30 * 24 * 60 * 60 * 1000);
-    const isDormant = 
-      (token.lastViewAt && token.lastViewAt < sixMonthsAgo) ||
-      (!token.lastViewAt && token.createdAt < sixMonthsAgo);
-
-    if (isDormant) {
-      // Auto-revoke dormant token
-      await db
-        .update(guestTokens)
-        .set({ revoked: true })
-        .where(eq(guestTokens.id, token.id));
-
-      return NextResponse.json(
-        { error: 'This access has been automatically revoked due to inactivity (>6 months)' },
-        { status: 403 }
-      );
-    }
 
     // Update last_view_at (token is active and valid)
     await db
@@ -89,7 +51,7 @@ export async function POST(request: Request) {
     // Duration label
     const durationLabel = token.expiresAt ? '24h' : 'Permanent';
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       nickname: token.nickname,
       aircraft: aircraftList.map(ac => ({
         id: ac.id,
@@ -100,6 +62,17 @@ export async function POST(request: Request) {
       status,
       expiresAt: token.expiresAt,
     });
+
+    // Remember the token hash so tracking requests (including EventSource streams) carry it
+    response.cookies.set(GUEST_COOKIE_NAME, token_hash, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      expires: token.expiresAt ?? undefined,
+      path: '/',
+    });
+
+    return response;
   } catch (error) {
     console.error('[v/validate] Error:', error);
     return NextResponse.json(
@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import type { FleetMarker } from "./FlightMap";
+import type { Point } from "@/lib/statusAdapter";
+import { mergeBatchStatus, type BatchStatus } from "@/lib/batchStatus";
+
+// Dynamically import FlightMap to prevent SSR issues with Leaflet
+const FlightMap = dynamic(
+  () => import("./FlightMap").then((mod) => ({ default: mod.FlightMap })),
+  { ssr: false, loading: () => <div className="h-full w-full flex items-center justify-center bg-slate-100">Loading map...</div> }
+);
+
+type Track = {
+  hex: string;
+  tail?: string | null;
+  points: Point[];
+};
+
+export type FleetAircraft = {
+  id: number;
+  tail: string;
+  hex: string;
+};
+
+// Distinct colors, assigned in list order
+const FLEET_COLORS = ["#3b82f6", "#a855f7", "#f97316", "#10b981", "#ef4444", "#0ea5e9", "#eab308", "#ec4899", "#14b8a6", "#6366f1"];
+
+const REFRESH_MS = 30000; // 30 seconds
+
+function statusOf(entry: BatchStatus | undefined): FleetMarker["status"] {
+  if (!entry?.position) return "unknown";
+  return entry.airborne ? "airborne" : "parked";
+}
+
+function toPoint(entry: BatchStatus | undefined): Point | null {
+  const p = entry?.position;
+  if (!p) return null;
+  return { lat: p.lat, lon: p.lon, ts: p.ts ?? undefined, alt_ft: p.alt_ft ?? undefined, hdg: p.hdg ?? undefined };
+}
+
+async function fetchFleetStatus(ids: number[]): Promise<BatchStatus[]> {
+  const r = await fetch(`/api/track/batch?ids=${ids.join(",")}`, {
+    headers: { accept: "application/json" },
+  });
+  if (!r.ok) throw new Error(`HTTP ${r.status}`);
+  const data = await r.json();
+  return data.aircraft || [];
+}
+
+async function fetchTrack(hex: string): Promise<Track | null> {
+  const r = await fetch(`/api/track?hex=${encodeURIComponent(hex.toLowerCase())}`, {
+    headers: { accept: "application/json" },
+  });
+  if (r.status === 404) return null;
+  if (!r.ok) throw new Error(`HTTP ${r.status}`);
+  return r.json();
+}
+
+function formatAge(ts?: number): string {
+  if (!ts) return "";
+  const minutes = Math.max(0, Math.round((Date.now() / 1000 - ts) / 60));
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+}
+
+const STATUS_LABELS: Record<FleetMarker["status"], string> = {
+  airborne: "Airborne",
+  parked: "On ground",
+  unknown: "No recent data",
+};
+
+type FleetMapProps = {
+  aircraft: FleetAircraft[];
+  // Link for each aircraft's full tracker page (e.g. with a guest token)
+  trackHref: (a: FleetAircraft) => string;
+};
+
+/**
+ * Every aircraft of a fleet on one map, each with its own color, label and status
+ * Positions come from one batch request every 30 seconds; clicking a plane
+ * (or its row) focuses it and loads its full track
+ */
+export function FleetMap({ aircraft, trackHref }: FleetMapProps) {
+  const [entries, setEntries] = useState<Record<number, BatchStatus>>({});
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [selectedTrack, setSelectedTrack] = useState<Track | null>(null);
+  const [shouldAutoFit, setShouldAutoFit] = useState(true);
+
+  const selected = aircraft.find((a) => a.id === selectedId) || null;
+
+  const refresh = useCallback(async () => {
+    if (aircraft.length === 0) return;
+    try {
+      const statuses = await fetchFleetStatus(aircraft.map((a) => a.id));
+      setEntries((prev) => mergeBatchStatus(prev, statuses));
+    } catch (e) {
+      console.log(`[FLEET] Update unavailable: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [aircraft]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  // Full track only for the focused aircraft
+  useEffect(() => {
+    setSelectedTrack(null);
+    if (!selected) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const track = await fetchTrack(selected.hex);
+        if (!cancelled) setSelectedTrack(track);
+      } catch (e) {
+        console.log(`[FLEET] Track unavailable for ${selected.tail}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [selected]);
+
+  const markers: FleetMarker[] = useMemo(() => aircraft.map((a, i) => {
+    const track = a.id === selectedId ? selectedTrack?.points || [] : [];
+    return {
+      id: a.id,
+      label: a.tail,
+      color: FLEET_COLORS[i % FLEET_COLORS.length],
+      status: statusOf(entries[a.id]),
+      current: toPoint(entries[a.id]),
+      track: track.map((p) => [p.lat, p.lon] as [number, number]),
+    };
+  }), [aircraft, entries, selectedId, selectedTrack]);
+
+  // Fit to the selected aircraft's track, otherwise to every known position
+  const fitPoints = useMemo(() => {
+    if (selectedTrack?.points.length) return selectedTrack.points;
+    return markers.map((m) => m.current).filter((p): p is Point => p !== null);
+  }, [markers, selectedTrack]);
+
+  // Re-fit once positions (or the focused track) arrive
+  const hasPositions = fitPoints.length > 0;
+  const hasSelectedTrack = !!selectedTrack?.points.length;
+  useEffect(() => {
+    if (hasPositions) setShouldAutoFit(true);
+  }, [hasPositions, hasSelectedTrack]);
+
+  const select = useCallback((id: number) => {
+    setSelectedId((current) => (current === id ? null : id));
+    setShouldAutoFit(true);
+  }, []);
+
+  const onFitComplete = useCallback(() => setShouldAutoFit(false), []);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[1fr_18rem] gap-4" data-testid="fleet-map">
+      <div className="h-[32rem] rounded-xl overflow-hidden shadow-lg">
+        <FlightMap
+          points={fitPoints}
+          completedSegment={[]}
+          remainingSegment={[]}
+          origin={null}
+          destination={null}
+          current={null}
+          shouldAutoFit={shouldAutoFit}
+          onFitComplete={onFitComplete}
+          fleet={markers}
+          selectedFleetId={selectedId}
+          onFleetSelect={select}
+        />
+      </div>
+
+      <ul className="bg-white dark:bg-gray-900 rounded-xl shadow-lg divide-y divide-gray-200 dark:divide-gray-800 overflow-y-auto max-h-[32rem]">
+        {aircraft.map((a, i) => {
+          const entry = entries[a.id];
+          const status = statusOf(entry);
+          const route = [entry?.originAirport, entry?.destinationAirport].filter(Boolean).join(" → ");
+          const altitude = status === "airborne" && entry?.position?.alt_ft ? `${entry.position.alt_ft} ft` : null;
+
+          return (
+            <li key={a.id}>
+              <button
+                type="button"
+                onClick={() => select(a.id)}
+                className={`w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/50 ${selectedId === a.id ? "bg-gray-50 dark:bg-gray-800/50" : ""}`}
+                data-testid={`button-fleet-${a.id}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-full shrink-0" style={{ background: FLEET_COLORS[i % FLEET_COLORS.length] }} />
+                  <span className="font-semibold text-gray-900 dark:text-white">{a.tail}</span>
+                  <span
+                    className={`ml-auto text-xs font-medium ${status === "airborne" ? "text-green-600 dark:text-green-400" : "text-gray-500 dark:text-gray-400"}`}
+                    data-testid={`text-fleet-status-${a.id}`}
+                  >
+                    {entry ? STATUS_LABELS[status] : "Loading..."}
+                  </span>
+                </div>
+                <div className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  {[route, altitude, formatAge(entry?.position?.ts ?? undefined)]
+                    .filter(Boolean)
+                    .join(" • ") || " "}
+                </div>
+              </button>
+              {selectedId === a.id && (
+                <Link
+                  href={trackHref(a)}
+                  className="block px-4 pb-3 text-sm text-purple-600 dark:text-purple-400 font-medium"
+                  data-testid={`link-fleet-track-${a.id}`}
+                >
+                  Open tracker →
+                </Link>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 "use client";
 
-import { MapContainer, TileLayer, Marker, Polyline, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, Marker, Polyline, CircleMarker, useMap } from "react-leaflet";
 import L, { LatLngExpression } from "leaflet";
-import { useEffect, useState, useRef } from "react";
+import React, { useEffect, useState, useRef } from "react";
 import "leaflet/dist/leaflet.css";
 
 type Point = {
@@ -11,6 +11,7 @@ type Point = {
   ts?: number;
   alt_ft?: number;
   gs_kt?: number;
+  vr_fpm?: number;
   hdg?: number;
 };
 
@@ -20,10 +21,20 @@ type Waypoint = {
   lon: number;
 };
 
+// One aircraft on the fleet map
+export type FleetMarker = {
+  id: number;
+  label: string;
+  color: string;
+  status: "airborne" | "parked" | "unknown";
+  current: Point | null;
+  track: [number, number][];
+};
+
 // ---------- Icons (module-level cache) ----------
 let _originPin: L.DivIcon | null = null;
 let _destinationPin: L.DivIcon | null = null;
-const _planeIconCache: Map<number, L.DivIcon> = new Map();
+const _planeIconCache: Map<string, L.DivIcon> = new Map();
 
 const getOriginPin = () => {
   if (!_originPin && typeof window !== 'undefined') {
@@ -53,26 +64,27 @@ const getDestinationPin = () => {
   return _destinationPin;
 };
 
-const getPlaneIcon = (heading?: number) => {
+const getPlaneIcon = (heading?: number, color: string = '#3b82f6') => {
   if (typeof window === 'undefined') return null;
   
   const hdg = Math.round(heading ?? 0);
+  const key = `${color}:${hdg}`;
   
-  if (_planeIconCache.has(hdg)) {
-    return _planeIconCache.get(hdg)!;
+  if (_planeIconCache.has(key)) {
+    return _planeIconCache.get(key)!;
   }
   
   const icon = new L.DivIcon({
     className: "",
     html: `<svg xmlns='http://www.w3.org/2000/svg' viewBox='-24 -24 48 48' width='48' height='48' style="transform: rotate(${hdg}deg);">
-      <path fill='#3b82f6' stroke='white' stroke-width='1.5' 
+      <path fill='${color}' stroke='white' stroke-width='1.5' 
             d='M0,-16 L3,-14 L10,-4 L10,0 L4,0 L4,6 L7,10 L3,10 L0,8 L-3,10 L-7,10 L-4,6 L-4,0 L-10,0 L-10,-4 L-3,-14 Z'/>
       <ellipse cx='0' cy='-8' rx='2.5' ry='4' fill='#1e40af' opacity='0.6'/>
     </svg>`,
     iconAnchor: [24, 24],
   });
   
-  _planeIconCache.set(hdg, icon);
+  _planeIconCache.set(key, icon);
   return icon;
 };
 
@@ -136,6 +148,38 @@ const getWaypointLabel = (name: string) => {
   });
 };
 
+// Fleet aircraft label: tail with a status dot, offset below the plane icon
+const FLEET_STATUS_COLORS = { airborne: '#10b981', parked: '#64748b', unknown: '#d1d5db' };
+
+const getFleetLabel = (label: string, color: string, status: FleetMarker['status'], selected: boolean) => {
+  if (typeof window === 'undefined') return null;
+  
+  // Estimate label width: ~8px per char at 12px font-weight 600, plus dot, padding and border
+  const estimatedWidth = (label.length * 8) + 30;
+  const centerX = Math.round(estimatedWidth / 2);
+  
+  return new L.DivIcon({
+    className: "",
+    html: `<div style="
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      width: fit-content;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+      font-size: 12px;
+      font-weight: 600;
+      color: #1f2937;
+      background: white;
+      padding: 2px 6px;
+      border-radius: 4px;
+      border: ${selected ? 3 : 2}px solid ${color};
+      box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+      white-space: nowrap;
+    "><span style="width: 8px; height: 8px; border-radius: 50%; background: ${FLEET_STATUS_COLORS[status]};"></span>${label}</div>`,
+    iconAnchor: [centerX, -22],
+  });
+};
+
 function FitBounds({ points, shouldFit, onFitComplete }: { 
   points: Point[]; 
   shouldFit: boolean;
@@ -297,6 +341,10 @@ type FlightMapProps = {
   waypoints?: Waypoint[] | null;
   shouldAutoFit: boolean;
   onFitComplete: () => void;
+  highlight?: Point | null; // Spot hovered in the profile chart
+  fleet?: FleetMarker[];    // Fleet view: every aircraft with its own color and label
+  selectedFleetId?: number | null;
+  onFleetSelect?: (id: number) => void;
 };
 
 export function FlightMap({
@@ -311,6 +359,10 @@ export function FlightMap({
   waypoints,
   shouldAutoFit,
   onFitComplete,
+  highlight,
+  fleet,
+  selectedFleetId,
+  onFleetSelect,
 }: FlightMapProps) {
   const [showAirportLabels, setShowAirportLabels] = useState(() => {
     if (typeof window !== 'undefined') {
@@ -374,6 +426,38 @@ export function FlightMap({
           icon={getDestinationPin()!}
         />
       )}
+      {highlight && (
+        <CircleMarker
+          center={[highlight.lat, highlight.lon]}
+          radius={7}
+          pathOptions={{ color: "#0f172a", weight: 2, fillColor: "#facc15", fillOpacity: 0.9 }}
+        />
+      )}
+      {fleet?.map((f) => (
+        <ManagedPolyline
+          key={`fleet-track-${f.id}`}
+          positions={f.track}
+          color={f.color}
+          weight={f.id === selectedFleetId ? 4 : 2}
+          opacity={selectedFleetId == null || f.id === selectedFleetId ? 0.9 : 0.35}
+        />
+      ))}
+      {fleet?.map((f) => (
+        f.current && getPlaneIcon(f.current.hdg, f.color) && (
+          <React.Fragment key={`fleet-${f.id}`}>
+            <Marker
+              position={[f.current.lat, f.current.lon]}
+              icon={getPlaneIcon(f.current.hdg, f.color)!}
+              eventHandlers={{ click: () => onFleetSelect?.(f.id) }}
+            />
+            <Marker
+              position={[f.current.lat, f.current.lon]}
+              icon={getFleetLabel(f.label, f.color, f.status, f.id === selectedFleetId)!}
+              eventHandlers={{ click: () => onFleetSelect?.(f.id) }}
+            />
+          </React.Fragment>
+        )
+      ))}
       {current && getPlaneIcon(current.hdg) && (
         <Marker
           position={[current.lat, current.lon]}
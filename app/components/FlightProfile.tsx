@@ -0,0 +1,146 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import type { Point } from "@/lib/statusAdapter";
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PAD = { top: 8, right: 28, bottom: 16, left: 34 };
+
+// Round an axis maximum up to a readable step
+function niceMax(value: number, step: number): number {
+  return Math.max(step, Math.ceil(value / step) * step);
+}
+
+function formatClock(ts: number): string {
+  return new Date(ts * 1000).toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+type FlightProfileProps = {
+  points: Point[];
+  // Called with the point under the cursor (null when the cursor leaves the chart)
+  onHover: (point: Point | null) => void;
+};
+
+/**
+ * Altitude (area) and ground speed (line) over time for a track
+ * Hovering reports the nearest point so the map can highlight it
+ */
+export function FlightProfile({ points, onHover }: FlightProfileProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const timed = useMemo(
+    () => points.filter((p) => Number.isFinite(p.ts) && (Number.isFinite(p.alt_ft) || Number.isFinite(p.gs_kt))),
+    [points],
+  );
+
+  const chart = useMemo(() => {
+    if (timed.length < 2) return null;
+
+    const t0 = timed[0].ts!;
+    const t1 = timed[timed.length - 1].ts!;
+    let highestAlt = 0;
+    let highestGs = 0;
+    for (const p of timed) {
+      highestAlt = Math.max(highestAlt, p.alt_ft ?? 0);
+      highestGs = Math.max(highestGs, p.gs_kt ?? 0);
+    }
+    const maxAlt = niceMax(highestAlt, 1000);
+    const maxGs = niceMax(highestGs, 50);
+
+    const innerW = WIDTH - PAD.left - PAD.right;
+    const innerH = HEIGHT - PAD.top - PAD.bottom;
+    const x = (ts: number) => PAD.left + ((ts - t0) / (t1 - t0 || 1)) * innerW;
+    const yAlt = (alt: number) => PAD.top + innerH - (Math.max(alt, 0) / maxAlt) * innerH;
+    const yGs = (gs: number) => PAD.top + innerH - (gs / maxGs) * innerH;
+
+    const altPoints = timed.filter((p) => Number.isFinite(p.alt_ft));
+    const altArea = altPoints.length > 1
+      ? [
+          `M${x(altPoints[0].ts!)},${PAD.top + innerH}`,
+          ...altPoints.map((p) => `L${x(p.ts!)},${yAlt(p.alt_ft!)}`),
+          `L${x(altPoints[altPoints.length - 1].ts!)},${PAD.top + innerH}Z`,
+        ].join(" ")
+      : null;
+
+    const gsPoints = timed.filter((p) => Number.isFinite(p.gs_kt));
+    const gsLine = gsPoints.length > 1
+      ? gsPoints.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.ts!)},${yGs(p.gs_kt!)}`).join(" ")
+      : null;
+
+    return { t0, t1, maxAlt, maxGs, innerW, innerH, x, altArea, gsLine };
+  }, [timed]);
+
+  if (!chart) return null;
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const ts = chart.t0 + ((svgX - PAD.left) / chart.innerW) * (chart.t1 - chart.t0);
+
+    // Nearest point in time
+    let best = 0;
+    for (let i = 1; i < timed.length; i++) {
+      if (Math.abs(timed[i].ts! - ts) < Math.abs(timed[best].ts! - ts)) best = i;
+    }
+    setHoverIndex(best);
+    onHover(timed[best]);
+  };
+
+  const handleLeave = () => {
+    setHoverIndex(null);
+    onHover(null);
+  };
+
+  const hovered = hoverIndex !== null ? timed[hoverIndex] : null;
+
+  return (
+    <div data-testid="chart-flight-profile">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto select-none"
+        onMouseMove={handleMove}
+        onMouseLeave={handleLeave}
+        role="img"
+        aria-label="Altitude and ground speed profile"
+      >
+        {chart.altArea && <path d={chart.altArea} fill="#a855f7" fillOpacity={0.25} stroke="#a855f7" strokeWidth={1} />}
+        {chart.gsLine && <path d={chart.gsLine} fill="none" stroke="#3b82f6" strokeWidth={1.5} />}
+
+        {/* Axes: altitude on the left, ground speed on the right */}
+        <text x={PAD.left - 4} y={PAD.top + 8} textAnchor="end" fontSize={9} fill="#a855f7">
+          {chart.maxAlt >= 1000 ? `${chart.maxAlt / 1000}k` : chart.maxAlt}
+        </text>
+        <text x={PAD.left - 4} y={PAD.top + chart.innerH} textAnchor="end" fontSize={9} fill="#64748b">0</text>
+        <text x={WIDTH - PAD.right + 4} y={PAD.top + 8} fontSize={9} fill="#3b82f6">{chart.maxGs}kt</text>
+        <text x={PAD.left} y={HEIGHT - 3} fontSize={9} fill="#64748b">{formatClock(chart.t0)}</text>
+        <text x={WIDTH - PAD.right} y={HEIGHT - 3} textAnchor="end" fontSize={9} fill="#64748b">{formatClock(chart.t1)}</text>
+
+        {hovered && (
+          <line
+            x1={chart.x(hovered.ts!)}
+            x2={chart.x(hovered.ts!)}
+            y1={PAD.top}
+            y2={PAD.top + chart.innerH}
+            stroke="#0f172a"
+            strokeWidth={1}
+            strokeDasharray="3,2"
+          />
+        )}
+      </svg>
+      <p className="text-xs text-slate-500 mt-1 h-4" data-testid="text-profile-readout">
+        {hovered
+          ? [
+              formatClock(hovered.ts!),
+              Number.isFinite(hovered.alt_ft) ? `${hovered.alt_ft} ft` : null,
+              Number.isFinite(hovered.gs_kt) ? `${hovered.gs_kt} kt` : null,
+              Number.isFinite(hovered.vr_fpm) ? `${hovered.vr_fpm! > 0 ? "+" : ""}${hovered.vr_fpm} fpm` : null,
+            ].filter(Boolean).join(" • ")
+          : "Hover to find a point on the map"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { Pause, Play, X } from "lucide-react";
+import type { Point } from "@/lib/statusAdapter";
+
+const SPEEDS = [30, 60, 120, 300];
+
+// Shortest-path interpolation between two headings (e.g. 350° → 10° goes through 0°)
+function interpolateHeading(a: number, b: number, f: number): number {
+  const delta = ((b - a + 540) % 360) - 180;
+  return (a + delta * f + 360) % 360;
+}
+
+/**
+ * Position along a timestamped track at time t (Unix seconds)
+ * Interpolates lat/lon/altitude linearly and heading along the shortest turn
+ */
+export function interpolatePosition(points: Point[], t: number): Point | undefined {
+  const timed = points.filter((p) => Number.isFinite(p.ts));
+  if (timed.length === 0) return undefined;
+  if (t <= timed[0].ts!) return timed[0];
+  if (t >= timed[timed.length - 1].ts!) return timed[timed.length - 1];
+
+  const i = timed.findIndex((p) => p.ts! > t);
+  const a = timed[i - 1];
+  const b = timed[i];
+  const f = (t - a.ts!) / (b.ts! - a.ts! || 1);
+
+  const hdg =
+    Number.isFinite(a.hdg) && Number.isFinite(b.hdg)
+      ? interpolateHeading(a.hdg!, b.hdg!, f)
+      : a.hdg ?? b.hdg;
+  const alt_ft =
+    Number.isFinite(a.alt_ft) && Number.isFinite(b.alt_ft)
+      ? Math.round(a.alt_ft! + (b.alt_ft! - a.alt_ft!) * f)
+      : a.alt_ft;
+
+  return {
+    lat: a.lat + (b.lat - a.lat) * f,
+    lon: a.lon + (b.lon - a.lon) * f,
+    ts: t,
+    alt_ft,
+    hdg,
+  };
+}
+
+function formatClock(ts: number): string {
+  return new Date(ts * 1000).toLocaleTimeString("en-US", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+interface FlightReplayProps {
+  label: string;
+  startTs: number;
+  endTs: number;
+  time: number;
+  setTime: React.Dispatch<React.SetStateAction<number>>;
+  playing: boolean;
+  setPlaying: (playing: boolean) => void;
+  speed: number;
+  setSpeed: (speed: number) => void;
+  onClose: () => void;
+}
+
+export function FlightReplay({
+  label,
+  startTs,
+  endTs,
+  time,
+  setTime,
+  playing,
+  setPlaying,
+  speed,
+  setSpeed,
+  onClose,
+}: FlightReplayProps) {
+  // Advance replay time while playing (speed = replay seconds per real second)
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const elapsed = (now - last) / 1000;
+      last = now;
+      setTime((t) => Math.min(endTs, t + elapsed * speed));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, endTs, setTime]);
+
+  // Stop at the end of the leg
+  useEffect(() => {
+    if (playing && time >= endTs) {
+      setPlaying(false);
+    }
+  }, [playing, time, endTs, setPlaying]);
+
+  const togglePlaying = () => {
+    // Restart from the beginning when pressing play at the end
+    if (!playing && time >= endTs) {
+      setTime(startTs);
+    }
+    setPlaying(!playing);
+  };
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 right-4 z-[1000] bg-white/95 rounded-lg shadow-lg border p-3"
+      data-testid="panel-replay"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium">Replay: {label}</span>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate-400 hover:text-slate-600 transition-colors rounded hover:bg-slate-100"
+          title="Exit replay"
+          aria-label="Exit replay"
+          data-testid="button-replay-close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlaying}
+          className="p-2 rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+          title={playing ? "Pause" : "Play"}
+          aria-label={playing ? "Pause" : "Play"}
+          data-testid="button-replay-play"
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <input
+          type="range"
+          min={startTs}
+          max={endTs}
+          step={1}
+          value={time}
+          onChange={(e) => setTime(Number(e.target.value))}
+          className="flex-1"
+          aria-label="Replay position"
+          data-testid="slider-replay-time"
+        />
+        <span className="text-xs font-mono text-slate-600 w-24 text-right">{formatClock(time)}</span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="px-2 py-1 border rounded text-xs bg-white"
+          aria-label="Replay speed"
+          data-testid="select-replay-speed"
+        >
+          {SPEEDS.map((s) => (
+            <option key={s} value={s}>
+              {s}×
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,10 @@
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import dynamic from 'next/dynamic';
-import { Eye, EyeOff, Info } from "lucide-react";
+import { Activity, Bell, Download, Eye, EyeOff, History, Info } from "lucide-react";
 import { AboutModal } from "./AboutModal";
+import { FlightReplay, interpolatePosition } from "./FlightReplay";
+import { FlightProfile } from "./FlightProfile";
 import { hashTokenClient } from "@/lib/hash-client";
 
 // Dynamically import FlightMap to prevent SSR issues with Leaflet
@@ -19,6 +21,7 @@ type Point = {
   ts?: number;
   alt_ft?: number;
   gs_kt?: number;
+  vr_fpm?: number;
   hdg?: number;
 };
 type AirportInfo = {
@@ -29,6 +32,8 @@ type AirportInfo = {
   country_code: string;
   lat?: number;
   lon?: number;
+  elevation_ft?: number;
+  timezone?: string;
 };
 type Waypoint = {
   name: string;
@@ -47,6 +52,16 @@ type Track = {
   lastSeen?: number | null;
   waypoints?: Waypoint[] | null;
 };
+type PastFlight = {
+  id: number;
+  departure_airport: string | null;
+  arrival_airport: string | null;
+  off_at: string;
+  on_at: string | null;
+  air_time_sec: number | null;
+  max_alt_ft: number | null;
+};
+type ReplayLeg = PastFlight & { points: Point[] };
 type ApiError = { message?: string };
 
 class FetchError extends Error {
@@ -57,12 +72,18 @@ class FetchError extends Error {
 }
 
 // ---------- Fetch layer ----------
+// Guest credential for registered aircraft (SHA-256 hash of the ?guest= token)
+let guestTokenHash: string | null = null;
+
 async function safeFetch(url: string) {
   // Optional local mock toggle
   if (typeof window !== "undefined" && (window as any).SKYKEY_MOCK)
     return mockFetch(url);
 
-  const r = await fetch(url, { headers: { accept: "application/json" } });
+  const headers: Record<string, string> = { accept: "application/json" };
+  if (guestTokenHash) headers["x-guest-token"] = guestTokenHash;
+
+  const r = await fetch(url, { headers });
   if (!r.ok) {
     let msg = r.statusText;
     try {
@@ -91,6 +112,16 @@ async function fetchRandomHex(): Promise<{ hex: string; tail?: string }> {
   return safeFetch(url);
 }
 
+async function fetchPastFlights(hex: string): Promise<{ flights: PastFlight[] }> {
+  const url = `/api/track/flights?hex=${encodeURIComponent(hex)}`;
+  return safeFetch(url);
+}
+
+async function fetchReplayLeg(id: number): Promise<ReplayLeg> {
+  const url = `/api/track/flights/${id}`;
+  return safeFetch(url);
+}
+
 // ---------- Local mock ----------
 function mockFetch(url: string) {
   if (url.startsWith("/api/random"))
@@ -164,16 +195,39 @@ function formatAirport(
   return parts.join(" - ");
 }
 
-function formatTime(ts: number | null | undefined): string {
+// timeZone: IANA zone to show the time in (defaults to the viewer's)
+function formatTime(ts: number | null | undefined, timeZone?: string): string {
   if (!ts) return "—";
   const date = new Date(ts * 1000);
-  return date.toLocaleString("en-US", {
+  const options: Intl.DateTimeFormatOptions = {
     month: "short",
     day: "numeric",
     hour: "2-digit",
     minute: "2-digit",
     timeZoneName: "short",
-  });
+  };
+  try {
+    return date.toLocaleString("en-US", { ...options, timeZone });
+  } catch {
+    // Unknown zone name
+    return date.toLocaleString("en-US", options);
+  }
+}
+
+const VIEWER_TIME_ZONE =
+  typeof Intl !== "undefined" ? Intl.DateTimeFormat().resolvedOptions().timeZone : undefined;
+
+// Airport-local time, plus the viewer's own time when they are in a different zone
+function LocalTimes({ ts, timeZone }: { ts: number | null | undefined; timeZone?: string }) {
+  if (!ts || !timeZone || timeZone === VIEWER_TIME_ZONE) {
+    return <>{formatTime(ts, timeZone)}</>;
+  }
+  return (
+    <>
+      {formatTime(ts, timeZone)}
+      <span className="block text-slate-500">Your time: {formatTime(ts)}</span>
+    </>
+  );
 }
 
 function formatDuration(seconds: number | null | undefined): string {
@@ -227,7 +281,16 @@ export function SkyKeyApp({ initialId, guestToken }: SkyKeyAppProps = {}) {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
   const [isMultiAircraftGuest, setIsMultiAircraftGuest] = useState<boolean>(false);
   const [guestAccessError, setGuestAccessError] = useState<string | null>(null);
-  
+  const [pastFlights, setPastFlights] = useState<PastFlight[]>([]);
+  const [replay, setReplay] = useState<ReplayLeg | null>(null);
+  const [profileHover, setProfileHover] = useState<Point | null>(null);
+  const [replayTime, setReplayTime] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(60);
+  const [subscribeEmail, setSubscribeEmail] = useState("");
+  const [subscribing, setSubscribing] = useState(false);
+  const [subscribeMessage, setSubscribeMessage] = useState<string | null>(null);
+
   // Track the last hex that was auto-fitted to prevent re-fitting on polling updates
   const lastFittedHexRef = useRef<string | null>(null);
   const [shouldAutoFit, setShouldAutoFit] = useState(false);
@@ -443,19 +506,30 @@ export function SkyKeyApp({ initialId, guestToken }: SkyKeyAppProps = {}) {
   // Auto-fetch on mount if initialId is provided
   useEffect(() => {
     if (!initialId) return;
+    let cancelled = false;
     
     // Detect if it's a hex (6 chars alphanumeric) or tail (starts with N)
     const isHex = /^[A-Fa-f0-9]{6}$/.test(initialId);
     const isTail = /^N/.test(initialId.toUpperCase());
     
-    if (isHex) {
-      setHex(initialId.toUpperCase());
-      handleFetchByHex(initialId.toUpperCase());
-    } else if (isTail) {
-      setTail(initialId.toUpperCase());
-      handleFetchByTail(initialId.toUpperCase());
-    }
-  }, [initialId, handleFetchByHex, handleFetchByTail]);
+    (async () => {
+      // Registered aircraft are only tracked with the guest token, so hash it before fetching
+      guestTokenHash = guestToken ? await hashTokenClient(guestToken) : null;
+      if (cancelled) return;
+
+      if (isHex) {
+        setHex(initialId.toUpperCase());
+        handleFetchByHex(initialId.toUpperCase());
+      } else if (isTail) {
+        setTail(initialId.toUpperCase());
+        handleFetchByTail(initialId.toUpperCase());
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initialId, guestToken, handleFetchByHex, handleFetchByTail]);
 
   const handleRandom = useCallback(async () => {
     setLoading(true);
@@ -525,6 +599,108 @@ export function SkyKeyApp({ initialId, guestToken }: SkyKeyAppProps = {}) {
     return segment;
   }, [filteredTrackPoints, destination, track?.waypoints]);
 
+  // ---------- Replay of a past leg ----------
+  const replayPoints = useMemo(
+    () => (replay?.points ?? []).filter((p) => Number.isFinite(p.lat) && Number.isFinite(p.lon) && Number.isFinite(p.ts)),
+    [replay],
+  );
+  const replayStart = replayPoints.length ? replayPoints[0].ts! : 0;
+  const replayEnd = replayPoints.length ? replayPoints[replayPoints.length - 1].ts! : 0;
+  const replayCurrent = useMemo(
+    () => interpolatePosition(replayPoints, replayTime),
+    [replayPoints, replayTime],
+  );
+
+  // Same completed/remaining split as the live view, cut at the replay position
+  const replayCompletedSegment = useMemo(() => {
+    if (!replayCurrent) return [];
+    const segment: [number, number][] = replayPoints
+      .filter((p) => p.ts! <= replayTime)
+      .map((p) => [p.lat, p.lon]);
+    segment.push([replayCurrent.lat, replayCurrent.lon]);
+    return segment;
+  }, [replayPoints, replayTime, replayCurrent]);
+
+  const replayRemainingSegment = useMemo(() => {
+    if (!replayCurrent) return [];
+    const segment: [number, number][] = [[replayCurrent.lat, replayCurrent.lon]];
+    replayPoints
+      .filter((p) => p.ts! > replayTime)
+      .forEach((p) => segment.push([p.lat, p.lon]));
+    return segment;
+  }, [replayPoints, replayTime, replayCurrent]);
+
+  // Load past legs for registered aircraft (empty for everything else)
+  useEffect(() => {
+    if (!track?.hex) {
+      setPastFlights([]);
+      return;
+    }
+
+    let mounted = true;
+    fetchPastFlights(track.hex)
+      .then((data) => {
+        if (mounted) setPastFlights(data.flights || []);
+      })
+      .catch(() => {
+        if (mounted) setPastFlights([]);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [track?.hex]);
+
+  const startReplay = useCallback(async (id: number) => {
+    try {
+      const leg = await fetchReplayLeg(id);
+      const timed = (leg.points || []).filter((p) => Number.isFinite(p.ts));
+      if (timed.length < 2) return;
+      setReplay(leg);
+      setReplayTime(timed[0].ts!);
+      setReplayPlaying(true);
+      setShouldAutoFit(true);
+    } catch {
+      // The leg stays in the list; replay just doesn't start
+    }
+  }, []);
+
+  // Guests can get departed/arrived emails for the aircraft on their link
+  const handleSubscribe = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!guestToken || !subscribeEmail) return;
+    setSubscribing(true);
+    setSubscribeMessage(null);
+
+    try {
+      const res = await fetch('/api/v/subscribe', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token_hash: await hashTokenClient(guestToken), email: subscribeEmail }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        setSubscribeMessage(data.confirmed
+          ? "Preferences updated. We'll email you when this aircraft departs or arrives."
+          : "Check your inbox and confirm your email to start getting departure and arrival emails.");
+        setSubscribeEmail("");
+      } else {
+        setSubscribeMessage(data.error || "Couldn't subscribe. Please try again.");
+      }
+    } catch {
+      setSubscribeMessage("Couldn't subscribe. Please try again.");
+    } finally {
+      setSubscribing(false);
+    }
+  };
+
+  const stopReplay = useCallback(() => {
+    setReplay(null);
+    setReplayPlaying(false);
+    setShouldAutoFit(true);
+  }, []);
+
   // reset live path when switching aircraft
   useEffect(() => {
     setLivePoints([]);
@@ -545,9 +721,51 @@ export function SkyKeyApp({ initialId, guestToken }: SkyKeyAppProps = {}) {
     }
   }, [track?.hex]);
 
-  // 30-second polling for live updates
+  const liveHex = track?.hex;
+
+  // Live updates over Server-Sent Events (one shared upstream poll per aircraft)
+  // Falls back to 30-second polling where EventSource isn't available
+  useEffect(() => {
+    if (!liveHex) return;
+    if (typeof window === "undefined" || typeof EventSource === "undefined" || (window as any).SKYKEY_MOCK) return;
+
+    const source = new EventSource(`/api/track/stream?hex=${encodeURIComponent(liveHex)}`);
+
+    source.addEventListener("status", (e) => {
+      const status: Track = JSON.parse((e as MessageEvent).data);
+      setTrack(status);
+      setError(null);
+    });
+
+    source.addEventListener("update", (e) => {
+      const update: Track = JSON.parse((e as MessageEvent).data);
+      setTrack((prev) =>
+        prev && prev.hex === update.hex
+          ? { ...update, points: [...prev.points, ...update.points] }
+          : update,
+      );
+      setError(null);
+    });
+
+    source.addEventListener("stream-error", (e) => {
+      // Provider error on the server (connection drops fire "error" and reconnect on their own)
+      // The last known track data remains displayed
+      console.log(`[LIVE] Update unavailable for ${liveHex}: ${(e as MessageEvent).data}`);
+    });
+
+    source.addEventListener("denied", () => {
+      // Access was revoked or expired mid-stream (or the owner made the aircraft private)
+      source.close();
+      setError("Live tracking is no longer available for this aircraft.");
+    });
+
+    return () => source.close();
+  }, [liveHex]);
+
+  // 30-second polling fallback for live updates
   useEffect(() => {
     if (!hex) return;
+    if (typeof EventSource !== "undefined" && !(window as any).SKYKEY_MOCK) return;
 
     const pollInterval = setInterval(async () => {
       try {
@@ -721,19 +939,51 @@ export function SkyKeyApp({ initialId, guestToken }: SkyKeyAppProps = {}) {
               </div>
             </div>
           )}
-          <FlightMap
-            points={points}
-            completedSegment={completedSegment}
-            remainingSegment={remainingSegment}
-            origin={origin}
-            destination={destination}
-            current={current}
-            originAirport={track?.originAirport}
-            destinationAirport={track?.destinationAirport}
-            waypoints={track?.waypoints}
-            shouldAutoFit={shouldAutoFit}
-            onFitComplete={handleFitComplete}
-          />
+          {replay ? (
+            <FlightMap
+              points={replayPoints}
+              completedSegment={replayCompletedSegment}
+              remainingSegment={replayRemainingSegment}
+              origin={replayPoints[0]}
+              destination={replayPoints[replayPoints.length - 1]}
+              current={replayCurrent}
+              originAirport={replay.departure_airport}
+              destinationAirport={replay.arrival_airport}
+              waypoints={null}
+              shouldAutoFit={shouldAutoFit}
+              onFitComplete={handleFitComplete}
+              highlight={profileHover}
+            />
+          ) : (
+            <FlightMap
+              points={points}
+              completedSegment={completedSegment}
+              remainingSegment={remainingSegment}
+              origin={origin}
+              destination={destination}
+              current={current}
+              originAirport={track?.originAirport}
+              destinationAirport={track?.destinationAirport}
+              waypoints={track?.waypoints}
+              shouldAutoFit={shouldAutoFit}
+              onFitComplete={handleFitComplete}
+              highlight={profileHover}
+            />
+          )}
+          {replay && (
+            <FlightReplay
+              label={`${replay.departure_airport || "?"} → ${replay.arrival_airport || "?"}, ${new Date(replay.off_at).toLocaleDateString()}`}
+              startTs={replayStart}
+              endTs={replayEnd}
+              time={replayTime}
+              setTime={setReplayTime}
+              playing={replayPlaying}
+              setPlaying={setReplayPlaying}
+              speed={replaySpeed}
+              setSpeed={setReplaySpeed}
+              onClose={stopReplay}
+            />
+          )}
         </section>
 
         <aside className="p-4 border-l bg-white overflow-y-auto">
@@ -769,12 +1019,16 @@ export function SkyKeyApp({ initialId, guestToken }: SkyKeyAppProps = {}) {
 
             <div className="pt-2 border-t">
               <dt className="text-slate-500 font-medium">Departure</dt>
-              <dd className="mt-0.5 text-xs">{formatTime(departureTime)}</dd>
+              <dd className="mt-0.5 text-xs" data-testid="text-departure-time">
+                <LocalTimes ts={departureTime} timeZone={track?.originInfo?.timezone} />
+              </dd>
             </div>
 
             <div>
               <dt className="text-slate-500 font-medium">Arrival (Est)</dt>
-              <dd className="mt-0.5 text-xs">{formatTime(arrivalTime)}</dd>
+              <dd className="mt-0.5 text-xs" data-testid="text-arrival-time">
+                <LocalTimes ts={arrivalTime} timeZone={track?.destinationInfo?.timezone} />
+              </dd>
             </div>
 
             <div>
@@ -817,6 +1071,15 @@ export function SkyKeyApp({ initialId, guestToken }: SkyKeyAppProps = {}) {
               </dd>
             </div>
 
+            <div>
+              <dt className="text-slate-500 font-medium">Vertical Rate</dt>
+              <dd className="mt-0.5">
+                {Number.isFinite(current?.vr_fpm)
+                  ? `${current!.vr_fpm! > 0 ? "+" : ""}${current!.vr_fpm} fpm`
+                  : "—"}
+              </dd>
+            </div>
+
             <div>
               <dt className="text-slate-500 font-medium">Heading</dt>
               <dd className="mt-0.5">
@@ -824,6 +1087,106 @@ export function SkyKeyApp({ initialId, guestToken }: SkyKeyAppProps = {}) {
               </dd>
             </div>
           </dl>
+
+          {(replay ? replayPoints : filteredTrackPoints).length > 1 && (
+            <div className="mt-4 pt-4 border-t">
+              <h2 className="font-medium mb-2 flex items-center gap-2">
+                <Activity className="w-4 h-4" />
+                Altitude &amp; Speed
+              </h2>
+              <FlightProfile
+                points={replay ? replayPoints : filteredTrackPoints}
+                onHover={setProfileHover}
+              />
+            </div>
+          )}
+
+          {(replay || track?.hex) && (
+            <div className="mt-4 pt-4 border-t">
+              <h2 className="font-medium mb-2 flex items-center gap-2">
+                <Download className="w-4 h-4" />
+                Export Track
+              </h2>
+              <div className="flex gap-2">
+                {(["gpx", "kml", "csv"] as const).map((format) => (
+                  <a
+                    key={format}
+                    href={`/api/track/export?format=${format}&${
+                      replay ? `flight=${replay.id}` : `hex=${track!.hex.toLowerCase()}`
+                    }`}
+                    download
+                    className="px-3 py-1.5 rounded border text-sm font-medium hover:bg-slate-50 transition-colors"
+                    title={format === "kml" ? "Google Earth" : undefined}
+                    data-testid={`link-export-${format}`}
+                  >
+                    {format.toUpperCase()}
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {pastFlights.length > 0 && (
+            <div className="mt-4 pt-4 border-t">
+              <h2 className="font-medium mb-2 flex items-center gap-2">
+                <History className="w-4 h-4" />
+                Past Flights
+              </h2>
+              <ul className="text-sm space-y-1" data-testid="list-past-flights">
+                {pastFlights.map((f) => (
+                  <li key={f.id}>
+                    <button
+                      onClick={() => startReplay(f.id)}
+                      className={`w-full text-left px-2 py-1.5 rounded hover:bg-blue-50 transition-colors ${
+                        replay?.id === f.id ? "bg-blue-50 text-blue-700" : ""
+                      }`}
+                      title="Replay this flight"
+                      data-testid={`button-replay-${f.id}`}
+                    >
+                      <span className="font-mono">
+                        {f.departure_airport || "?"} → {f.arrival_airport || "?"}
+                      </span>
+                      <span className="block text-xs text-slate-500">
+                        {new Date(f.off_at).toLocaleDateString()} • {formatDuration(f.air_time_sec)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {guestToken && !guestAccessError && (
+            <div className="mt-4 pt-4 border-t">
+              <h2 className="font-medium mb-2 flex items-center gap-2">
+                <Bell className="w-4 h-4" />
+                Flight Notifications
+              </h2>
+              <form onSubmit={handleSubscribe} className="flex gap-2">
+                <input
+                  type="email"
+                  value={subscribeEmail}
+                  onChange={(e) => setSubscribeEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  className="flex-1 min-w-0 px-2 py-1.5 border rounded text-sm"
+                  aria-label="Email for departure and arrival notifications"
+                  data-testid="input-subscribe-email"
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={subscribing}
+                  className="px-3 py-1.5 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  data-testid="button-subscribe"
+                >
+                  {subscribing ? "..." : "Notify me"}
+                </button>
+              </form>
+              <p className="text-xs text-slate-500 mt-1" data-testid="text-subscribe-status">
+                {subscribeMessage || "Get an email when this aircraft departs or arrives."}
+              </p>
+            </div>
+          )}
         </aside>
       </main>
 
@@ -1,15 +1,20 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { Plane, Users, Copy, Check, RefreshCw, Trash2, Radar, Key } from 'lucide-react';
+import { Plane, Users, Copy, Check, RefreshCw, Trash2, Radar, Key, BookOpen, Upload, Map as MapIcon } from 'lucide-react';
+import { FleetMap } from '@/app/components/FleetMap';
 import { nNumberToIcao, icaoToNNumber } from '@/lib/nnumber-converter';
+import { mergeBatchStatus, type BatchStatus } from '@/lib/batchStatus';
+
+type PrivacyMode = 'private' | 'guests' | 'public_delayed';
 
 interface Aircraft {
   id: number;
   tail: string;
   icao_hex: string;
+  privacy_mode: PrivacyMode;
   authorized_at: string;
   created_at: string;
 }
@@ -25,9 +30,62 @@ interface GuestToken {
   created_at: string;
 }
 
+interface LogbookFlight {
+  id: number;
+  departure_airport: string | null;
+  arrival_airport: string | null;
+  off_at: string;
+  on_at: string | null;
+  air_time_sec: number | null;
+  max_alt_ft: number | null;
+  point_count: number;
+}
+
+const LIVE_STATUS_REFRESH_MS = 60000; // 1 minute
+
+const PRIVACY_OPTIONS: { value: PrivacyMode; label: string }[] = [
+  { value: 'private', label: 'Private (only me)' },
+  { value: 'guests', label: 'Guests only' },
+  { value: 'public_delayed', label: 'Public (delayed)' },
+];
+
+function formatAirTime(seconds: number | null): string {
+  if (!seconds || seconds < 0) return '—';
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  return `${hrs}h ${mins}m`;
+}
+
+// Clock time for today, date and time otherwise
+function formatStatusTime(ts: number): string {
+  const date = new Date(ts * 1000);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${time}`;
+}
+
+function describeLiveStatus(status: BatchStatus | undefined): string {
+  if (!status || status.error) return 'No recent data';
+
+  if (status.airborne) {
+    const route = status.originAirport || status.destinationAirport
+      ? ` ${status.originAirport || '?'}→${status.destinationAirport || '?'}`
+      : '';
+    return `Airborne${route}${status.eta ? `, ETA ${formatStatusTime(status.eta)}` : ''}`;
+  }
+
+  if (status.onGround) {
+    const { airport, since } = status.onGround;
+    return `On ground${airport ? ` at ${airport}` : ''}${since ? ` since ${formatStatusTime(since)}` : ''}`;
+  }
+
+  return 'No recent data';
+}
+
 export default function DashboardPage() {
   const router = useRouter();
-  const [activeTab, setActiveTab] = useState<'aircraft' | 'guest'>('aircraft');
+  const [activeTab, setActiveTab] = useState<'aircraft' | 'fleet' | 'guest'>('aircraft');
   const [aircraft, setAircraft] = useState<Aircraft[]>([]);
   const [guestTokens, setGuestTokens] = useState<GuestToken[]>([]);
   const [loading, setLoading] = useState(true);
@@ -38,6 +96,8 @@ export default function DashboardPage() {
   const [selectedAircraft, setSelectedAircraft] = useState<number[]>([]);
   const [nickname, setNickname] = useState('');
   const [duration, setDuration] = useState<'24h' | 'permanent'>('permanent');
+  const [delayMinutes, setDelayMinutes] = useState(0);
+  const [coarseRadiusNm, setCoarseRadiusNm] = useState(0);
   const [tail, setTail] = useState('');
   const [icaoHex, setIcaoHex] = useState('');
   const [submitting, setSubmitting] = useState(false);
@@ -45,11 +105,46 @@ export default function DashboardPage() {
   const [generatedUrl, setGeneratedUrl] = useState('');
   const [copied, setCopied] = useState(false);
   const [regeneratingTokenId, setRegeneratingTokenId] = useState<number | null>(null);
+  const [logbookAircraft, setLogbookAircraft] = useState<Aircraft | null>(null);
+  const [logbookFlights, setLogbookFlights] = useState<LogbookFlight[]>([]);
+  const [logbookLoading, setLogbookLoading] = useState(false);
+  const [logbookError, setLogbookError] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState('');
+  const [liveStatus, setLiveStatus] = useState<Record<number, BatchStatus>>({});
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Live status column, refreshed while the aircraft table is shown and the page is visible
+  useEffect(() => {
+    if (activeTab !== 'aircraft' || aircraft.length === 0) return;
+
+    const loadLiveStatus = async () => {
+      if (document.visibilityState === 'hidden') return;
+      try {
+        const res = await fetch(`/api/track/batch?ids=${aircraft.map(a => a.id).join(',')}`);
+        if (!res.ok) return;
+        const data = await res.json();
+        setLiveStatus(previous => mergeBatchStatus(previous, data.aircraft || []));
+      } catch (err) {
+        console.error('Live status error:', err);
+      }
+    };
+
+    loadLiveStatus();
+    const interval = setInterval(loadLiveStatus, LIVE_STATUS_REFRESH_MS);
+    // Catch up straight away when the tab comes back into view
+    document.addEventListener('visibilitychange', loadLiveStatus);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', loadLiveStatus);
+    };
+  }, [activeTab, aircraft]);
+
+  const fleet = useMemo(() => aircraft.map(a => ({ id: a.id, tail: a.tail, hex: a.icao_hex })), [aircraft]);
+
   const loadData = async () => {
     await Promise.all([loadAircraft(), loadGuestTokens()]);
   };
@@ -198,6 +293,8 @@ export default function DashboardPage() {
           aircraft_ids: selectedAircraft,
           nickname: nickname || null,
           duration: duration,
+          delay_minutes: delayMinutes || null,
+          coarse_radius_nm: coarseRadiusNm || null,
         }),
       });
 
@@ -290,6 +387,97 @@ export default function DashboardPage() {
     }
   };
 
+  const handlePrivacyChange = async (a: Aircraft, privacyMode: PrivacyMode) => {
+    const previous = a.privacy_mode;
+    // Update the UI immediately, roll back if the server rejects it
+    setAircraft(list => list.map(x => x.id === a.id ? { ...x, privacy_mode: privacyMode } : x));
+
+    try {
+      const res = await fetch(`/api/aircraft/${a.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ privacy_mode: privacyMode }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        setAircraft(list => list.map(x => x.id === a.id ? { ...x, privacy_mode: previous } : x));
+        alert(data.message || data.error || 'Failed to update privacy');
+      }
+    } catch (err) {
+      setAircraft(list => list.map(x => x.id === a.id ? { ...x, privacy_mode: previous } : x));
+      alert('Network error');
+    }
+  };
+
+  const openLogbook = async (a: Aircraft) => {
+    setLogbookAircraft(a);
+    setLogbookFlights([]);
+    setImportMessage('');
+    await loadLogbook(a);
+  };
+
+  const loadLogbook = async (a: Aircraft) => {
+    setLogbookError('');
+    setLogbookLoading(true);
+
+    try {
+      const res = await fetch(`/api/aircraft/${a.id}/flights`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setLogbookError(data.error || 'Failed to load logbook');
+        setLogbookLoading(false);
+        return;
+      }
+
+      setLogbookFlights(data.flights || []);
+      setLogbookLoading(false);
+    } catch (err) {
+      setLogbookError('Network error');
+      setLogbookLoading(false);
+    }
+  };
+
+  const importTrackLog = async (a: Aircraft, file: File) => {
+    setImporting(true);
+    setLogbookError('');
+    setImportMessage('');
+
+    try {
+      const form = new FormData();
+      form.append('file', file);
+
+      const res = await fetch(`/api/aircraft/${a.id}/tracks`, {
+        method: 'POST',
+        body: form,
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setLogbookError(data.message || data.error || 'Failed to import track log');
+        setImporting(false);
+        return;
+      }
+
+      const notes = [
+        data.imported > 0 && data.already_stored > 0 ? `${data.already_stored} already recorded` : '',
+        data.duplicates > 0 ? `${data.duplicates} duplicate timestamps` : '',
+        data.skipped > 0 ? `${data.skipped} invalid points skipped` : '',
+      ].filter(Boolean).join(', ');
+      setImportMessage(
+        (data.imported > 0
+          ? `Imported ${data.imported} points from ${file.name}`
+          : `Every point in ${file.name} was already recorded`) + (notes ? ` (${notes})` : '')
+      );
+      setImporting(false);
+      await loadLogbook(a);
+    } catch (err) {
+      setLogbookError('Network error');
+      setImporting(false);
+    }
+  };
+
   const copyToClipboard = () => {
     navigator.clipboard.writeText(generatedUrl);
     setCopied(true);
@@ -301,6 +489,8 @@ export default function DashboardPage() {
     setSelectedAircraft([]);
     setNickname('');
     setDuration('permanent');
+    setDelayMinutes(0);
+    setCoarseRadiusNm(0);
     setAddError('');
     setGeneratedUrl('');
   };
@@ -371,6 +561,20 @@ export default function DashboardPage() {
                 My Aircraft
               </div>
             </button>
+            <button
+              onClick={() => setActiveTab('fleet')}
+              className={`pb-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'fleet'
+                  ? 'border-purple-600 text-purple-600 dark:text-purple-400'
+                  : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+              }`}
+              data-testid="tab-fleet"
+            >
+              <div className="flex items-center gap-2">
+                <MapIcon className="w-4 h-4" />
+                Fleet Map
+              </div>
+            </button>
             <button
               onClick={() => setActiveTab('guest')}
               className={`pb-4 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -443,6 +647,12 @@ export default function DashboardPage() {
                       <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                         ICAO Hex
                       </th>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                        Visibility
+                      </th>
                       <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                         Authorized
                       </th>
@@ -472,6 +682,32 @@ export default function DashboardPage() {
                             {a.icao_hex}
                           </Link>
                         </td>
+                        <td
+                          className={`px-6 py-4 whitespace-nowrap text-sm ${
+                            liveStatus[a.id]?.airborne
+                              ? 'text-green-600 dark:text-green-400 font-medium'
+                              : 'text-gray-600 dark:text-gray-400'
+                          }`}
+                          data-testid={`text-live-status-${a.id}`}
+                        >
+                          {a.id in liveStatus ? describeLiveStatus(liveStatus[a.id]) : 'Loading...'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <select
+                            value={a.privacy_mode}
+                            onChange={(e) => handlePrivacyChange(a, e.target.value as PrivacyMode)}
+                            className="text-sm px-2 py-1 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:border-purple-500 dark:focus:border-purple-400"
+                            title="Who can see this aircraft on the tracking page"
+                            aria-label={`Visibility for ${a.tail}`}
+                            data-testid={`select-privacy-${a.id}`}
+                          >
+                            {PRIVACY_OPTIONS.map((o) => (
+                              <option key={o.value} value={o.value}>
+                                {o.label}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
                           {new Date(a.authorized_at).toLocaleDateString()}
                         </td>
@@ -486,6 +722,15 @@ export default function DashboardPage() {
                             >
                               <Radar className="w-4 h-4" />
                             </Link>
+                            <button
+                              onClick={() => openLogbook(a)}
+                              className="icon-btn p-2 text-gray-600 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                              title="View the flight logbook for this aircraft"
+                              aria-label={`Logbook for aircraft ${a.tail}`}
+                              data-testid={`button-logbook-${a.id}`}
+                            >
+                              <BookOpen className="w-4 h-4" />
+                            </button>
                             <button
                               onClick={() => {
                                 setSelectedAircraft([a.id]);
@@ -518,6 +763,17 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {/* Fleet Map Tab */}
+        {activeTab === 'fleet' && (
+          aircraft.length === 0 ? (
+            <div className="bg-white dark:bg-gray-900 rounded-xl shadow-lg p-12 text-center text-gray-600 dark:text-gray-400" data-testid="text-fleet-empty">
+              Add an aircraft to see it on the fleet map.
+            </div>
+          ) : (
+            <FleetMap aircraft={fleet} trackHref={(a) => `/track/${a.tail}`} />
+          )
+        )}
+
         {/* Guest Access Tab */}
         {activeTab === 'guest' && (
           <div>
@@ -866,6 +1122,43 @@ export default function DashboardPage() {
                     </div>
                   </div>
 
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="delayMinutes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Position Delay
+                      </label>
+                      <select
+                        id="delayMinutes"
+                        value={delayMinutes}
+                        onChange={(e) => setDelayMinutes(Number(e.target.value))}
+                        className="w-full h-12 px-4 rounded-lg border-2 border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:border-purple-500 dark:focus:border-purple-400 focus:ring-2 focus:ring-purple-500/20 transition-colors"
+                        data-testid="select-delay"
+                      >
+                        <option value={0}>Live</option>
+                        <option value={5}>5 minutes</option>
+                        <option value={15}>15 minutes</option>
+                        <option value={30}>30 minutes</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="coarseRadius" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        Position Accuracy
+                      </label>
+                      <select
+                        id="coarseRadius"
+                        value={coarseRadiusNm}
+                        onChange={(e) => setCoarseRadiusNm(Number(e.target.value))}
+                        className="w-full h-12 px-4 rounded-lg border-2 border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:border-purple-500 dark:focus:border-purple-400 focus:ring-2 focus:ring-purple-500/20 transition-colors"
+                        data-testid="select-coarse-radius"
+                      >
+                        <option value={0}>Exact</option>
+                        <option value={5}>Within 5 nm</option>
+                        <option value={10}>Within 10 nm</option>
+                        <option value={25}>Within 25 nm</option>
+                      </select>
+                    </div>
+                  </div>
+
                   <div className="flex gap-3 justify-end">
                     <button
                       type="button"
@@ -992,6 +1285,112 @@ export default function DashboardPage() {
           </div>
         </div>
       )}
+
+      {/* Logbook Modal */}
+      {logbookAircraft && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[85vh] flex flex-col">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Logbook – {logbookAircraft.tail}
+              </h3>
+              <button
+                onClick={() => setLogbookAircraft(null)}
+                className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                data-testid="button-close-logbook-modal"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="mb-4 flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Missing a flight? Import a GPX, IGC or ForeFlight CSV track log.
+              </p>
+              <label
+                className={`inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 whitespace-nowrap ${importing ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}
+                data-testid="button-import-track"
+              >
+                <Upload className="w-4 h-4" />
+                {importing ? 'Importing...' : 'Import Track Log'}
+                <input
+                  type="file"
+                  accept=".gpx,.igc,.csv"
+                  className="hidden"
+                  disabled={importing}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) importTrackLog(logbookAircraft, file);
+                  }}
+                  data-testid="input-import-track"
+                />
+              </label>
+            </div>
+
+            {importMessage && (
+              <div className="mb-4 p-4 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800" data-testid="text-import-result">
+                <p className="text-sm text-green-800 dark:text-green-400">{importMessage}</p>
+              </div>
+            )}
+
+            {logbookError && (
+              <div className="mb-4 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800" data-testid="text-logbook-error">
+                <p className="text-sm text-red-800 dark:text-red-400">{logbookError}</p>
+              </div>
+            )}
+
+            {logbookLoading ? (
+              <div className="py-12 text-center text-gray-600 dark:text-gray-400">Loading...</div>
+            ) : logbookFlights.length === 0 && !logbookError ? (
+              <div className="py-12 text-center text-gray-600 dark:text-gray-400" data-testid="text-logbook-empty">
+                No flights recorded yet. Legs are added automatically as this aircraft is tracked, or from imported track logs.
+              </div>
+            ) : (
+              <div className="overflow-y-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Date</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Route</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Off / On</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Air Time</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Max Alt</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                    {logbookFlights.map((f) => (
+                      <tr key={f.id} data-testid={`row-flight-${f.id}`}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                          {new Date(f.off_at).toLocaleDateString()}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-gray-900 dark:text-white">
+                          {f.departure_airport || '—'} → {f.arrival_airport || '—'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {new Date(f.off_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          {' – '}
+                          {f.on_at
+                            ? new Date(f.on_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                            : 'In flight'}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {formatAirTime(f.air_time_sec)}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                          {f.max_alt_ft !== null ? `${f.max_alt_ft} ft` : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
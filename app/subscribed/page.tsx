@@ -0,0 +1,34 @@
+import Link from 'next/link';
+
+export default function SubscribedPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950 p-4">
+      <div className="max-w-md w-full text-center">
+        {/* Icon */}
+        <div className="mx-auto h-20 w-20 mb-6 text-purple-600 dark:text-purple-400">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 12.75L11.25 15 15 9.75M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </div>
+
+        {/* Headline */}
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">
+          You're subscribed
+        </h1>
+
+        {/* Body Text */}
+        <p className="text-gray-600 dark:text-gray-400 mb-8">
+          You'll get an email when this aircraft departs or arrives. Every email has a link to unsubscribe.
+        </p>
+
+        <Link
+          href="/"
+          className="inline-block px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+          data-testid="link-home"
+        >
+          Go to Home
+        </Link>
+      </div>
+    </div>
+  );
+}
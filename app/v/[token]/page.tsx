@@ -5,6 +5,7 @@ import { useEffect, useState } from 'react';
 import { hashTokenClient } from '@/lib/hash-client';
 import Link from 'next/link';
 import { AlertCircle, Plane } from 'lucide-react';
+import { FleetMap } from '@/app/components/FleetMap';
 
 interface Aircraft {
   id: number;
@@ -161,6 +162,11 @@ export default function GuestViewPage() {
           </div>
         </div>
 
+        {/* Fleet Map (the validate call set the guest cookie, so tracking requests are authorized) */}
+        <div className="mb-8">
+          <FleetMap aircraft={aircraft} trackHref={(ac) => `/track/${ac.tail}?guest=${token}`} />
+        </div>
+
         {/* Aircraft List */}
         <div className="bg-white dark:bg-gray-900 rounded-xl shadow-lg overflow-hidden">
           <div className="px-6 py-4 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
@@ -19,6 +19,9 @@ export const appConfig = {
 
   // Feature flags / settings
   cache: {
+    // Where cached flight status and rate limit counters live: 'memory' (per process)
+    // or 'postgres' (shared by every instance)
+    store: (process.env.CACHE_STORE === 'postgres' ? 'postgres' : 'memory') as 'memory' | 'postgres',
     flightStatusTtlMs: 15000, // 15 seconds
     randomAircraftTtlMs: 5000, // 5 seconds
   },
@@ -27,4 +30,89 @@ export const appConfig = {
     randomPerMinute: 6,
     resolvePerMinute: 30,
   },
+
+  // Flight data providers, in cascade order (first = tried first)
+  // Providers that aren't configured (missing API key / URL) are skipped
+  // 'airports' is the local airport database; 'airport-data' (airport-data.com) covers codes it
+  // doesn't have, including everything until `npm run airports:import` has filled it
+  providers: {
+    order: ['adsb', 'flightaware', 'aviationstack', 'airports', 'airport-data'],
+  },
+
+  // Provider resilience: retries for retryable errors and a circuit breaker per provider
+  resilience: {
+    maxRetries: 2,
+    retryBaseDelayMs: 500,           // Doubled on each retry (with jitter)
+    retryMaxDelayMs: 5000,           // Longer waits (incl. Retry-After) are left to the breaker
+    breakerThreshold: 3,             // Consecutive 5xx/429 responses that open the circuit
+    breakerCooldownMs: 60 * 1000,    // How long an open circuit skips the provider (at least Retry-After)
+  },
+
+  // Local ADS-B receiver (dump1090 / readsb), e.g. http://192.168.1.50:8080
+  adsb: {
+    url: process.env.ADSB_RECEIVER_URL || null,
+    legGapSeconds: 30 * 60, // A reception gap this long starts a new leg
+  },
+
+  // Live SSE stream (/api/track/stream)
+  live: {
+    pollIntervalMs: 30000, // One upstream poll per aircraft at this interval, shared by all viewers
+    heartbeatMs: 25000,    // Keeps proxies from closing idle streams
+  },
+
+  // Logbook leg segmentation
+  flights: {
+    legGapSeconds: 30 * 60,  // Positions further apart than this belong to different legs
+    minLegPoints: 3,         // Shorter runs are treated as noise
+    importGroundSpeedKt: 30, // Imported logs have MSL altitudes, so slower points count as on the ground
+  },
+
+  // Track log uploads (GPX / IGC / ForeFlight CSV) merged into position history
+  trackImport: {
+    maxFileBytes: 10 * 1024 * 1024,
+    maxPoints: 100000,
+    maxFutureSkewSeconds: 5 * 60, // Timestamps further ahead than this are a clock/time zone error
+  },
+
+  // Owner privacy modes (aircraft.privacy_mode)
+  privacy: {
+    publicDelaySeconds: 15 * 60, // How far behind live the public sees "public_delayed" aircraft
+  },
+
+  // Monthly call budgets for billed providers (usage ledger in provider_usage)
+  // Past degradeAtFraction of a budget, the provider is skipped and stored/cached data is served instead
+  budgets: {
+    degradeAtFraction: 0.9,
+    monthlyCalls: {
+      flightaware: 10000,
+      aviationstack: 100,
+    },
+  },
+
+  // Background polling of owner-registered aircraft (results stored in status_snapshots)
+  worker: {
+    enabled: process.env.POLLING_WORKER !== 'off',
+    tickMs: 15 * 1000,                    // How often due aircraft are looked for
+    airborneIntervalMs: 60 * 1000,        // Poll interval while flying
+    parkedIntervalMs: 3 * 60 * 60 * 1000, // Poll interval while on the ground / not found (departure check only, no track/route)
+    parkedViewMaxAgeMs: 15 * 60 * 1000,   // A parked snapshot older than this is refreshed when someone views the aircraft
+    errorIntervalMs: 5 * 60 * 1000,       // Retry interval after a provider error
+    maxPollsPerTick: 5,
+    providerQuotaPerHour: {               // Worker stops using a provider once this many calls were made in the last hour
+      flightaware: 300,
+      aviationstack: 20,
+    },
+  },
+
+  // Guest departed/arrived email subscriptions (double opt-in)
+  subscriptions: {
+    maxPendingPerEmail: 3, // Unconfirmed subscriptions an address can have, across all guest links
+  },
+
+  // Geofence enter/leave alerts (background evaluator over stored positions)
+  geofences: {
+    evaluateIntervalMs: 60 * 1000,
+    maxPerOwner: 50,
+    defaultAirportRadiusNm: 3,
+  },
 } as const;
@@ -0,0 +1,13 @@
+CREATE TABLE "positions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"aircraft_id" integer NOT NULL,
+	"ts" timestamp NOT NULL,
+	"lat" double precision NOT NULL,
+	"lon" double precision NOT NULL,
+	"alt_ft" integer,
+	"hdg" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "positions" ADD CONSTRAINT "positions_aircraft_id_aircraft_id_fk" FOREIGN KEY ("aircraft_id") REFERENCES "public"."aircraft"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "positions_aircraft_ts_idx" ON "positions" USING btree ("aircraft_id","ts");
\ No newline at end of file
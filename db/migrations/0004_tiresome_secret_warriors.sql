@@ -0,0 +1,17 @@
+CREATE TABLE "flights" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"aircraft_id" integer NOT NULL,
+	"departure_airport" varchar(10),
+	"arrival_airport" varchar(10),
+	"off_at" timestamp NOT NULL,
+	"on_at" timestamp,
+	"block_time_sec" integer,
+	"max_alt_ft" integer,
+	"track" jsonb NOT NULL,
+	"point_count" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "flights" ADD CONSTRAINT "flights_aircraft_id_aircraft_id_fk" FOREIGN KEY ("aircraft_id") REFERENCES "public"."aircraft"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "flights_aircraft_off_idx" ON "flights" USING btree ("aircraft_id","off_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE TYPE "public"."aircraft_privacy" AS ENUM('private', 'guests', 'public_delayed');--> statement-breakpoint
+ALTER TABLE "aircraft" ADD COLUMN "privacy_mode" "aircraft_privacy" DEFAULT 'guests' NOT NULL;
\ No newline at end of file
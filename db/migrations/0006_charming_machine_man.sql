@@ -0,0 +1,2 @@
+ALTER TABLE "guest_tokens" ADD COLUMN "delay_seconds" integer;--> statement-breakpoint
+ALTER TABLE "guest_tokens" ADD COLUMN "coarse_radius_nm" double precision;
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TYPE "public"."geofence_kind" AS ENUM('circle', 'polygon');--> statement-breakpoint
+CREATE TABLE "geofence_states" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"geofence_id" integer NOT NULL,
+	"aircraft_id" integer NOT NULL,
+	"inside" boolean NOT NULL,
+	"last_ts" timestamp NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "geofences" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"owner_user_id" integer NOT NULL,
+	"aircraft_id" integer,
+	"name" varchar(100) NOT NULL,
+	"kind" "geofence_kind" NOT NULL,
+	"airport_code" varchar(10),
+	"center_lat" double precision,
+	"center_lon" double precision,
+	"radius_nm" double precision,
+	"polygon" jsonb,
+	"notify_emails" jsonb NOT NULL,
+	"alert_on_enter" boolean DEFAULT true NOT NULL,
+	"alert_on_exit" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "geofence_states" ADD CONSTRAINT "geofence_states_geofence_id_geofences_id_fk" FOREIGN KEY ("geofence_id") REFERENCES "public"."geofences"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "geofence_states" ADD CONSTRAINT "geofence_states_aircraft_id_aircraft_id_fk" FOREIGN KEY ("aircraft_id") REFERENCES "public"."aircraft"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "geofences" ADD CONSTRAINT "geofences_owner_user_id_users_id_fk" FOREIGN KEY ("owner_user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "geofences" ADD CONSTRAINT "geofences_aircraft_id_aircraft_id_fk" FOREIGN KEY ("aircraft_id") REFERENCES "public"."aircraft"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "geofence_states_fence_aircraft_idx" ON "geofence_states" USING btree ("geofence_id","aircraft_id");
\ No newline at end of file
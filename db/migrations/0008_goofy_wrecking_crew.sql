@@ -0,0 +1,13 @@
+CREATE TABLE "guest_subscriptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"guest_token_id" integer NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"notify_departed" boolean DEFAULT true NOT NULL,
+	"notify_arrived" boolean DEFAULT true NOT NULL,
+	"last_departed_flight_at" timestamp,
+	"last_arrived_flight_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "guest_subscriptions" ADD CONSTRAINT "guest_subscriptions_guest_token_id_guest_tokens_id_fk" FOREIGN KEY ("guest_token_id") REFERENCES "public"."guest_tokens"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "guest_subscriptions_token_email_idx" ON "guest_subscriptions" USING btree ("guest_token_id","email");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "status_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"icao_hex" varchar(6) NOT NULL,
+	"status" jsonb,
+	"last_error" text,
+	"airborne" boolean DEFAULT false NOT NULL,
+	"fetched_at" timestamp NOT NULL,
+	"next_poll_at" timestamp NOT NULL,
+	CONSTRAINT "status_snapshots_icao_hex_unique" UNIQUE("icao_hex")
+);
@@ -0,0 +1,9 @@
+CREATE TABLE "provider_usage" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"provider" varchar(50) NOT NULL,
+	"endpoint" varchar(100) NOT NULL,
+	"day" date NOT NULL,
+	"calls" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "provider_usage_provider_endpoint_day_idx" ON "provider_usage" USING btree ("provider","endpoint","day");
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE "cache_entries" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"value" jsonb NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
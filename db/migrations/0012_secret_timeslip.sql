@@ -0,0 +1,23 @@
+CREATE TABLE "airports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ident" varchar(16) NOT NULL,
+	"type" varchar(32) NOT NULL,
+	"name" text NOT NULL,
+	"lat" double precision NOT NULL,
+	"lon" double precision NOT NULL,
+	"elevation_ft" integer,
+	"iso_country" varchar(2),
+	"iso_region" varchar(10),
+	"municipality" text,
+	"icao_code" varchar(4),
+	"iata_code" varchar(3),
+	"gps_code" varchar(16),
+	"local_code" varchar(16),
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "airports_ident_unique" UNIQUE("ident")
+);
+--> statement-breakpoint
+CREATE INDEX "airports_icao_code_idx" ON "airports" USING btree ("icao_code");--> statement-breakpoint
+CREATE INDEX "airports_iata_code_idx" ON "airports" USING btree ("iata_code");--> statement-breakpoint
+CREATE INDEX "airports_local_code_idx" ON "airports" USING btree ("local_code");--> statement-breakpoint
+CREATE INDEX "airports_gps_code_idx" ON "airports" USING btree ("gps_code");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "runways" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source_id" integer NOT NULL,
+	"airport_ident" varchar(16) NOT NULL,
+	"le_ident" varchar(8),
+	"he_ident" varchar(8),
+	"length_ft" integer,
+	"width_ft" integer,
+	"surface" varchar(64),
+	"lighted" boolean DEFAULT false NOT NULL,
+	"closed" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "runways_source_id_unique" UNIQUE("source_id")
+);
+--> statement-breakpoint
+ALTER TABLE "airports" ADD COLUMN "timezone" varchar(64);--> statement-breakpoint
+ALTER TABLE "runways" ADD CONSTRAINT "runways_airport_ident_airports_ident_fk" FOREIGN KEY ("airport_ident") REFERENCES "public"."airports"("ident") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "runways_airport_ident_idx" ON "runways" USING btree ("airport_ident");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "positions" ADD COLUMN "gs_kt" integer;--> statement-breakpoint
+ALTER TABLE "positions" ADD COLUMN "vr_fpm" integer;
\ No newline at end of file
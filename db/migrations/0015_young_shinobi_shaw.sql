@@ -0,0 +1,2 @@
+CREATE TYPE "public"."position_source" AS ENUM('provider', 'gpx', 'igc', 'foreflight');--> statement-breakpoint
+ALTER TABLE "positions" ADD COLUMN "source" "position_source" DEFAULT 'provider' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "guest_subscriptions" ADD COLUMN "confirmed_at" timestamp;--> statement-breakpoint
+-- Subscriptions made before double opt-in stay active
+UPDATE "guest_subscriptions" SET "confirmed_at" = "created_at";
\ No newline at end of file
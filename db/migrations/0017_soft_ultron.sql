@@ -0,0 +1 @@
+ALTER TABLE "flights" RENAME COLUMN "block_time_sec" TO "air_time_sec";
\ No newline at end of file
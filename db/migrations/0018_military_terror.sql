@@ -0,0 +1 @@
+ALTER TABLE "geofences" DROP COLUMN "notify_emails";
\ No newline at end of file
@@ -1,9 +1,19 @@
-import { pgTable, serial, text, varchar, timestamp, boolean, integer, pgEnum, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, varchar, timestamp, boolean, integer, pgEnum, jsonb, doublePrecision, uniqueIndex, index, date } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Enum for user roles
 export const userRoleEnum = pgEnum('user_role', ['owner', 'guest']);
 
+// Enum for who may track an owner-registered aircraft
+// private: owner only; guests: owner and guest tokens; public_delayed: anyone, with delayed positions
+export const aircraftPrivacyEnum = pgEnum('aircraft_privacy', ['private', 'guests', 'public_delayed']);
+
+// Enum for geofence shapes (circle around a point/airport, or arbitrary polygon)
+export const geofenceKindEnum = pgEnum('geofence_kind', ['circle', 'polygon']);
+
+// Enum for where a stored position came from (live providers, or a track log the owner uploaded)
+export const positionSourceEnum = pgEnum('position_source', ['provider', 'gpx', 'igc', 'foreflight']);
+
 // Users table
 export const users = pgTable('users', {
   id: serial('id').primaryKey(),
@@ -49,6 +59,7 @@ export const aircraft = pgTable('aircraft', {
   ownerUserId: integer('owner_user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   tail: varchar('tail', { length: 20 }).notNull(),
   icaoHex: varchar('icao_hex', { length: 6 }).notNull(),
+  privacyMode: aircraftPrivacyEnum('privacy_mode').default('guests').notNull(),
   authorizedAt: timestamp('authorized_at').defaultNow().notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
@@ -61,11 +72,162 @@ export const guestTokens = pgTable('guest_tokens', {
   aircraftIds: jsonb('aircraft_ids').notNull(),
   nickname: text('nickname'),
   expiresAt: timestamp('expires_at'),
+  delaySeconds: integer('delay_seconds'),             // Withhold positions newer than this (null = live)
+  coarseRadiusNm: doublePrecision('coarse_radius_nm'), // Snap positions to a grid this coarse (null = exact)
   revoked: boolean('revoked').default(false).notNull(),
   lastViewAt: timestamp('last_view_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Position history table (one row per aircraft per position timestamp)
+export const positions = pgTable('positions', {
+  id: serial('id').primaryKey(),
+  aircraftId: integer('aircraft_id').notNull().references(() => aircraft.id, { onDelete: 'cascade' }),
+  ts: timestamp('ts').notNull(),
+  lat: doublePrecision('lat').notNull(),
+  lon: doublePrecision('lon').notNull(),
+  altFt: integer('alt_ft'),
+  hdg: integer('hdg'),
+  gsKt: integer('gs_kt'),
+  vrFpm: integer('vr_fpm'),
+  source: positionSourceEnum('source').default('provider').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('positions_aircraft_ts_idx').on(table.aircraftId, table.ts),
+]);
+
+// Flights table (logbook legs derived from position history)
+export const flights = pgTable('flights', {
+  id: serial('id').primaryKey(),
+  aircraftId: integer('aircraft_id').notNull().references(() => aircraft.id, { onDelete: 'cascade' }),
+  departureAirport: varchar('departure_airport', { length: 10 }),
+  arrivalAirport: varchar('arrival_airport', { length: 10 }),
+  offAt: timestamp('off_at').notNull(),
+  onAt: timestamp('on_at'), // Null while the leg is in progress
+  airTimeSec: integer('air_time_sec'), // Wheels off to wheels on
+  maxAltFt: integer('max_alt_ft'),
+  track: jsonb('track').notNull(), // Polyline as [lat, lon] pairs
+  pointCount: integer('point_count').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('flights_aircraft_off_idx').on(table.aircraftId, table.offAt),
+]);
+
+// Latest flight status per registered aircraft hex, written by the polling worker and on-demand lookups
+export const statusSnapshots = pgTable('status_snapshots', {
+  id: serial('id').primaryKey(),
+  icaoHex: varchar('icao_hex', { length: 6 }).notNull().unique(),
+  status: jsonb('status'), // FlightStatus; null when the last lookup failed
+  lastError: text('last_error'),
+  airborne: boolean('airborne').default(false).notNull(),
+  fetchedAt: timestamp('fetched_at').notNull(),
+  nextPollAt: timestamp('next_poll_at').notNull(), // Served from the DB until then
+});
+
+// Provider usage ledger (billable API calls per provider, endpoint and UTC day)
+export const providerUsage = pgTable('provider_usage', {
+  id: serial('id').primaryKey(),
+  provider: varchar('provider', { length: 50 }).notNull(),
+  endpoint: varchar('endpoint', { length: 100 }).notNull(),
+  day: date('day', { mode: 'string' }).notNull(), // YYYY-MM-DD (UTC)
+  calls: integer('calls').default(0).notNull(),
+}, (table) => [
+  uniqueIndex('provider_usage_provider_endpoint_day_idx').on(table.provider, table.endpoint, table.day),
+]);
+
+// Airports table (OurAirports dataset, loaded with scripts/import-airports.ts)
+export const airports = pgTable('airports', {
+  id: serial('id').primaryKey(),
+  ident: varchar('ident', { length: 16 }).notNull().unique(), // OurAirports identifier (usually the ICAO code)
+  type: varchar('type', { length: 32 }).notNull(),            // large_airport, small_airport, heliport, closed, ...
+  name: text('name').notNull(),
+  lat: doublePrecision('lat').notNull(),
+  lon: doublePrecision('lon').notNull(),
+  elevationFt: integer('elevation_ft'),
+  isoCountry: varchar('iso_country', { length: 2 }),
+  isoRegion: varchar('iso_region', { length: 10 }),
+  municipality: text('municipality'),
+  icaoCode: varchar('icao_code', { length: 4 }),
+  iataCode: varchar('iata_code', { length: 3 }),
+  gpsCode: varchar('gps_code', { length: 16 }),
+  localCode: varchar('local_code', { length: 16 }), // FAA LID for US airports
+  timezone: varchar('timezone', { length: 64 }),     // IANA zone, e.g. America/Denver
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('airports_icao_code_idx').on(table.icaoCode),
+  index('airports_iata_code_idx').on(table.iataCode),
+  index('airports_local_code_idx').on(table.localCode),
+  index('airports_gps_code_idx').on(table.gpsCode),
+]);
+
+// Runways table (OurAirports dataset, imported with the airports)
+export const runways = pgTable('runways', {
+  id: serial('id').primaryKey(),
+  sourceId: integer('source_id').notNull().unique(), // OurAirports runway id
+  airportIdent: varchar('airport_ident', { length: 16 }).notNull().references(() => airports.ident, { onDelete: 'cascade' }),
+  leIdent: varchar('le_ident', { length: 8 }), // Low end, e.g. "09"
+  heIdent: varchar('he_ident', { length: 8 }), // High end, e.g. "27"
+  lengthFt: integer('length_ft'),
+  widthFt: integer('width_ft'),
+  surface: varchar('surface', { length: 64 }),
+  lighted: boolean('lighted').default(false).notNull(),
+  closed: boolean('closed').default(false).notNull(),
+}, (table) => [
+  index('runways_airport_ident_idx').on(table.airportIdent),
+]);
+
+// Shared cache entries (flight status cache and rate limit counters when appConfig.cache.store is 'postgres')
+export const cacheEntries = pgTable('cache_entries', {
+  key: varchar('key', { length: 255 }).primaryKey(),
+  value: jsonb('value').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+});
+
+// Geofences table (owner-defined areas that trigger enter/leave email alerts)
+export const geofences = pgTable('geofences', {
+  id: serial('id').primaryKey(),
+  ownerUserId: integer('owner_user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  aircraftId: integer('aircraft_id').references(() => aircraft.id, { onDelete: 'cascade' }), // Null = all of the owner's aircraft
+  name: varchar('name', { length: 100 }).notNull(),
+  kind: geofenceKindEnum('kind').notNull(),
+  airportCode: varchar('airport_code', { length: 10 }), // Set when the circle was centred on an airport
+  centerLat: doublePrecision('center_lat'),
+  centerLon: doublePrecision('center_lon'),
+  radiusNm: doublePrecision('radius_nm'),
+  polygon: jsonb('polygon'), // Vertices as [lat, lon] pairs
+  alertOnEnter: boolean('alert_on_enter').default(true).notNull(),
+  alertOnExit: boolean('alert_on_exit').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Geofence evaluation state (whether each aircraft is inside, and how far positions were evaluated)
+export const geofenceStates = pgTable('geofence_states', {
+  id: serial('id').primaryKey(),
+  geofenceId: integer('geofence_id').notNull().references(() => geofences.id, { onDelete: 'cascade' }),
+  aircraftId: integer('aircraft_id').notNull().references(() => aircraft.id, { onDelete: 'cascade' }),
+  inside: boolean('inside').notNull(),
+  lastTs: timestamp('last_ts').notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('geofence_states_fence_aircraft_idx').on(table.geofenceId, table.aircraftId),
+]);
+
+// Guest subscriptions table (email departed/arrived notifications for a guest token's aircraft)
+export const guestSubscriptions = pgTable('guest_subscriptions', {
+  id: serial('id').primaryKey(),
+  guestTokenId: integer('guest_token_id').notNull().references(() => guestTokens.id, { onDelete: 'cascade' }),
+  email: varchar('email', { length: 255 }).notNull(),
+  notifyDeparted: boolean('notify_departed').default(true).notNull(),
+  notifyArrived: boolean('notify_arrived').default(true).notNull(),
+  lastDepartedFlightAt: timestamp('last_departed_flight_at'), // Departure time of the flight last notified as departed
+  lastArrivedFlightAt: timestamp('last_arrived_flight_at'),   // Departure time of the flight last notified as arrived
+  confirmedAt: timestamp('confirmed_at'),                      // Null until the address owner follows the confirmation link
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('guest_subscriptions_token_email_idx').on(table.guestTokenId, table.email),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   sessions: many(sessions),
@@ -94,18 +256,72 @@ export const passwordResetsRelations = relations(passwordResets, ({ one }) => ({
   }),
 }));
 
-export const aircraftRelations = relations(aircraft, ({ one }) => ({
+export const aircraftRelations = relations(aircraft, ({ one, many }) => ({
   owner: one(users, {
     fields: [aircraft.ownerUserId],
     references: [users.id],
   }),
+  positions: many(positions),
+  flights: many(flights),
+}));
+
+export const positionsRelations = relations(positions, ({ one }) => ({
+  aircraft: one(aircraft, {
+    fields: [positions.aircraftId],
+    references: [aircraft.id],
+  }),
+}));
+
+export const flightsRelations = relations(flights, ({ one }) => ({
+  aircraft: one(aircraft, {
+    fields: [flights.aircraftId],
+    references: [aircraft.id],
+  }),
+}));
+
+export const geofencesRelations = relations(geofences, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [geofences.ownerUserId],
+    references: [users.id],
+  }),
+  aircraft: one(aircraft, {
+    fields: [geofences.aircraftId],
+    references: [aircraft.id],
+  }),
+  states: many(geofenceStates),
+}));
+
+export const geofenceStatesRelations = relations(geofenceStates, ({ one }) => ({
+  geofence: one(geofences, {
+    fields: [geofenceStates.geofenceId],
+    references: [geofences.id],
+  }),
 }));
 
-export const guestTokensRelations = relations(guestTokens, ({ one }) => ({
+export const guestTokensRelations = relations(guestTokens, ({ one, many }) => ({
   issuedBy: one(users, {
     fields: [guestTokens.issuedByUserId],
     references: [users.id],
   }),
+  subscriptions: many(guestSubscriptions),
+}));
+
+export const guestSubscriptionsRelations = relations(guestSubscriptions, ({ one }) => ({
+  guestToken: one(guestTokens, {
+    fields: [guestSubscriptions.guestTokenId],
+    references: [guestTokens.id],
+  }),
+}));
+
+export const airportsRelations = relations(airports, ({ many }) => ({
+  runways: many(runways),
+}));
+
+export const runwaysRelations = relations(runways, ({ one }) => ({
+  airport: one(airports, {
+    fields: [runways.airportIdent],
+    references: [airports.ident],
+  }),
 }));
 
 // Types
@@ -120,9 +336,41 @@ export type InsertEmailVerification = typeof emailVerifications.$inferInsert;
 
 export type Aircraft = typeof aircraft.$inferSelect;
 export type InsertAircraft = typeof aircraft.$inferInsert;
+export type AircraftPrivacyMode = (typeof aircraftPrivacyEnum.enumValues)[number];
 
 export type GuestToken = typeof guestTokens.$inferSelect;
 export type InsertGuestToken = typeof guestTokens.$inferInsert;
 
+export type GuestSubscription = typeof guestSubscriptions.$inferSelect;
+export type InsertGuestSubscription = typeof guestSubscriptions.$inferInsert;
+
 export type PasswordReset = typeof passwordResets.$inferSelect;
 export type InsertPasswordReset = typeof passwordResets.$inferInsert;
+
+export type Position = typeof positions.$inferSelect;
+export type InsertPosition = typeof positions.$inferInsert;
+export type PositionSource = (typeof positionSourceEnum.enumValues)[number];
+
+export type Flight = typeof flights.$inferSelect;
+export type InsertFlight = typeof flights.$inferInsert;
+
+export type StatusSnapshot = typeof statusSnapshots.$inferSelect;
+export type InsertStatusSnapshot = typeof statusSnapshots.$inferInsert;
+
+export type ProviderUsage = typeof providerUsage.$inferSelect;
+export type InsertProviderUsage = typeof providerUsage.$inferInsert;
+
+export type Airport = typeof airports.$inferSelect;
+export type InsertAirport = typeof airports.$inferInsert;
+
+export type Runway = typeof runways.$inferSelect;
+export type InsertRunway = typeof runways.$inferInsert;
+
+export type CacheEntry = typeof cacheEntries.$inferSelect;
+export type InsertCacheEntry = typeof cacheEntries.$inferInsert;
+
+export type Geofence = typeof geofences.$inferSelect;
+export type InsertGeofence = typeof geofences.$inferInsert;
+
+export type GeofenceState = typeof geofenceStates.$inferSelect;
+export type InsertGeofenceState = typeof geofenceStates.$inferInsert;
@@ -9,6 +9,18 @@ export async function register() {
     const { validateSecrets } = await import('./config/secrets');
     validateSecrets();
     
+    // Register flight data providers in the configured cascade order
+    const { registerDefaultProviders } = await import('./lib/providers/registry');
+    registerDefaultProviders();
+    
+    // Poll owner-registered aircraft in the background
+    const { startPollingWorker } = await import('./lib/pollingWorker');
+    startPollingWorker();
+    
+    // Evaluate geofence enter/leave alerts in the background
+    const { startGeofenceEvaluator } = await import('./lib/geofences');
+    startGeofenceEvaluator();
+    
     console.log('[health] ready');
   }
 }
@@ -0,0 +1,125 @@
+/**
+ * Local airport database
+ * Airports from the OurAirports dataset (imported with scripts/import-airports.ts),
+ * looked up by ICAO, IATA or FAA LID code.
+ */
+
+import { db } from '@/db';
+import { airports, runways, type Airport, type Runway } from '@/db/schema';
+import { and, asc, eq, ilike, ne, or, sql } from 'drizzle-orm';
+import type { AirportInfo } from './statusAdapter';
+
+// Bigger airports win when a code is ambiguous (e.g. an IATA code reused by a closed field)
+const TYPE_RANK: Record<string, number> = {
+  large_airport: 0,
+  medium_airport: 1,
+  small_airport: 2,
+  seaplane_base: 3,
+  heliport: 3,
+  closed: 9,
+};
+
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+export function countryName(isoCountry: string | null): string {
+  if (!isoCountry) return 'Unknown';
+  try {
+    return countryNames.of(isoCountry) || isoCountry;
+  } catch {
+    return isoCountry;
+  }
+}
+
+// Lower is a better match: the official ICAO code, then IATA, then FAA LID / GPS code
+function matchRank(airport: Airport, code: string): number {
+  const codeRank = airport.icaoCode === code || airport.ident === code ? 0
+    : airport.iataCode === code ? 1
+    : 2;
+  return codeRank * 10 + (TYPE_RANK[airport.type] ?? 4);
+}
+
+/**
+ * Find an airport by ICAO, IATA or FAA LID code
+ */
+export async function findAirport(code: string): Promise<Airport | null> {
+  const normalized = code.trim().toUpperCase();
+  if (!/^[A-Z0-9-]{2,16}$/.test(normalized)) return null;
+
+  const matches = await db
+    .select()
+    .from(airports)
+    .where(or(
+      eq(airports.ident, normalized),
+      eq(airports.icaoCode, normalized),
+      eq(airports.iataCode, normalized),
+      eq(airports.localCode, normalized),
+      eq(airports.gpsCode, normalized),
+    ))
+    .limit(20);
+
+  return matches.sort((a, b) => matchRank(a, normalized) - matchRank(b, normalized))[0] || null;
+}
+
+export function toAirportInfo(airport: Airport): AirportInfo {
+  return {
+    icao: airport.icaoCode || airport.ident,
+    name: airport.name,
+    city: airport.municipality || undefined,
+    country: countryName(airport.isoCountry),
+    country_code: airport.isoCountry || 'XX',
+    lat: airport.lat,
+    lon: airport.lon,
+    elevation_ft: airport.elevationFt ?? undefined,
+    timezone: airport.timezone || undefined,
+  };
+}
+
+/**
+ * Every code an airport may be referred to by (flight providers mix ICAO, IATA and LIDs)
+ */
+export function airportCodes(airport: Airport): string[] {
+  const codes = [airport.ident, airport.icaoCode, airport.iataCode, airport.gpsCode, airport.localCode];
+  return Array.from(new Set(codes.filter((c): c is string => !!c)));
+}
+
+/**
+ * Type-ahead search by code prefix, name or city
+ * Exact code matches first, then bigger airports
+ */
+export async function searchAirports(query: string, limit: number = 20): Promise<Airport[]> {
+  const q = query.trim();
+  if (q.length < 2) return [];
+
+  const code = q.toUpperCase();
+  const escaped = q.replace(/[\\%_]/g, '\\$&');
+  const codePrefix = `${escaped.toUpperCase()}%`;
+  const contains = `%${escaped}%`;
+
+  return db
+    .select()
+    .from(airports)
+    .where(and(
+      ne(airports.type, 'closed'),
+      or(
+        ilike(airports.ident, codePrefix),
+        ilike(airports.iataCode, codePrefix),
+        ilike(airports.localCode, codePrefix),
+        ilike(airports.name, contains),
+        ilike(airports.municipality, contains),
+      ),
+    ))
+    .orderBy(
+      sql`case when ${airports.ident} = ${code} or ${airports.icaoCode} = ${code} or ${airports.iataCode} = ${code} or ${airports.localCode} = ${code} then 0 else 1 end`,
+      sql`case ${airports.type} when 'large_airport' then 0 when 'medium_airport' then 1 when 'small_airport' then 2 else 3 end`,
+      asc(airports.name),
+    )
+    .limit(limit);
+}
+
+export async function getRunways(airport: Airport): Promise<Runway[]> {
+  return db
+    .select()
+    .from(runways)
+    .where(eq(runways.airportIdent, airport.ident))
+    .orderBy(asc(runways.leIdent));
+}
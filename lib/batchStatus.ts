@@ -0,0 +1,28 @@
+/**
+ * Batch flight status on the client
+ * Shared by the fleet map and the dashboard live status column, which both poll
+ * /api/track/batch for registered aircraft by ID.
+ */
+
+import type { StatusSummary } from './statusSummary';
+
+// Compact status from /api/track/batch (an error instead when unavailable)
+export type BatchStatus = Partial<StatusSummary> & {
+  id: number;
+  error?: string;
+};
+
+/**
+ * Merge a batch response into the statuses shown so far
+ * Aircraft that failed this time (rate limit, provider error) keep their last known status
+ */
+export function mergeBatchStatus(
+  previous: Record<number, BatchStatus>,
+  statuses: BatchStatus[]
+): Record<number, BatchStatus> {
+  const next = { ...previous };
+  for (const status of statuses) {
+    if (!status.error || status.error === 'unknown' || !previous[status.id]) next[status.id] = status;
+  }
+  return next;
+}
@@ -0,0 +1,147 @@
+/**
+ * Cache store
+ * Key/value storage with expiry behind the flight status cache and the rate limiters.
+ * 'memory' keeps entries per process; 'postgres' shares them between instances
+ * (cache_entries table). Selected by appConfig.cache.store.
+ */
+
+import { db } from '@/db';
+import { cacheEntries } from '@/db/schema';
+import { eq, lte, sql } from 'drizzle-orm';
+import { appConfig } from '@/config/app';
+
+export interface CacheStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+
+  // Atomically count a hit; the counter starts at 1 and expires ttlMs after the first hit
+  increment(key: string, ttlMs: number): Promise<{ count: number; expiresAt: number }>;
+
+  // Remove expired entries
+  prune(): Promise<void>;
+}
+
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000;
+
+export function createMemoryCacheStore(): CacheStore {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  function live(key: string) {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (Date.now() >= entry.expiresAt) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  return {
+    async get<T>(key: string) {
+      return (live(key)?.value as T) ?? null;
+    },
+
+    async set<T>(key: string, value: T, ttlMs: number) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    },
+
+    async delete(key: string) {
+      entries.delete(key);
+    },
+
+    async increment(key: string, ttlMs: number) {
+      const entry = live(key);
+      if (!entry) {
+        const fresh = { value: 1, expiresAt: Date.now() + ttlMs };
+        entries.set(key, fresh);
+        return { count: 1, expiresAt: fresh.expiresAt };
+      }
+      entry.value = (entry.value as number) + 1;
+      return { count: entry.value as number, expiresAt: entry.expiresAt };
+    },
+
+    async prune() {
+      const now = Date.now();
+      for (const [key, entry] of entries.entries()) {
+        if (now >= entry.expiresAt) entries.delete(key);
+      }
+    },
+  };
+}
+
+export function createPostgresCacheStore(): CacheStore {
+  return {
+    async get<T>(key: string) {
+      const [entry] = await db
+        .select({ value: cacheEntries.value, expiresAt: cacheEntries.expiresAt })
+        .from(cacheEntries)
+        .where(eq(cacheEntries.key, key))
+        .limit(1);
+
+      if (!entry || entry.expiresAt.getTime() <= Date.now()) return null;
+      return entry.value as T;
+    },
+
+    async set<T>(key: string, value: T, ttlMs: number) {
+      const expiresAt = new Date(Date.now() + ttlMs);
+      await db
+        .insert(cacheEntries)
+        .values({ key, value, expiresAt })
+        .onConflictDoUpdate({
+          target: cacheEntries.key,
+          set: { value, expiresAt },
+        });
+    },
+
+    async delete(key: string) {
+      await db.delete(cacheEntries).where(eq(cacheEntries.key, key));
+    },
+
+    async increment(key: string, ttlMs: number) {
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + ttlMs);
+      const nowParam = sql`${now.toISOString()}::timestamp`;
+
+      // An expired counter restarts at 1 with a new expiry; otherwise count up within the window
+      const [entry] = await db
+        .insert(cacheEntries)
+        .values({ key, value: 1, expiresAt })
+        .onConflictDoUpdate({
+          target: cacheEntries.key,
+          set: {
+            value: sql`case when ${cacheEntries.expiresAt} <= ${nowParam} then '1'::jsonb else to_jsonb((${cacheEntries.value})::text::int + 1) end`,
+            expiresAt: sql`case when ${cacheEntries.expiresAt} <= ${nowParam} then ${expiresAt.toISOString()}::timestamp else ${cacheEntries.expiresAt} end`,
+          },
+        })
+        .returning({ value: cacheEntries.value, expiresAt: cacheEntries.expiresAt });
+
+      return { count: Number(entry.value), expiresAt: entry.expiresAt.getTime() };
+    },
+
+    async prune() {
+      await db.delete(cacheEntries).where(lte(cacheEntries.expiresAt, new Date()));
+    },
+  };
+}
+
+let store: CacheStore | null = null;
+
+/**
+ * The configured cache store (created on first use, pruned every 5 minutes)
+ */
+export function getCacheStore(): CacheStore {
+  if (!store) {
+    const created = appConfig.cache.store === 'postgres' ? createPostgresCacheStore() : createMemoryCacheStore();
+    store = created;
+
+    // Unref'd so scripts and tests that touch the cache can still exit
+    setInterval(() => {
+      created.prune().catch((err) => {
+        console.error('[cache] Failed to prune expired entries:', err);
+      });
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  return store;
+}
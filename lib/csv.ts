@@ -0,0 +1,74 @@
+/**
+ * CSV helpers
+ * RFC 4180 parsing (quoted fields, escaped quotes, embedded newlines) and formatting
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  // Last row without a trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+}
+
+/**
+ * Parse CSV text with a header row into records keyed by column name
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const columns = header.map(h => h.trim());
+  return rows.map(row => Object.fromEntries(columns.map((col, i) => [col, row[i] ?? ''])));
+}
+
+function formatField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows as CSV text (CRLF line endings, quoting only where needed)
+ */
+export function formatCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(row => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
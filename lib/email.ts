@@ -84,6 +84,7 @@ export interface SendEmailOptions {
   subject: string;
   text: string;
   html?: string;
+  headers?: Record<string, string>;
 }
 
 export async function sendEmail(options: SendEmailOptions) {
@@ -95,6 +96,7 @@ export async function sendEmail(options: SendEmailOptions) {
     subject: options.subject,
     text: options.text,
     html: options.html,
+    headers: options.headers,
   };
 
   await transporter.sendMail(mailOptions);
@@ -141,3 +143,108 @@ export async function sendPasswordResetEmail(email: string, token: string, baseU
     `,
   });
 }
+
+export interface GeofenceAlert {
+  tail: string;
+  fenceName: string;
+  event: 'enter' | 'exit';
+  isAirport: boolean;
+  at: Date;
+  altFt?: number | null;
+}
+
+// Owner-supplied text (e.g. geofence names) going into an HTML body
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export async function sendGeofenceAlertEmail(email: string, alert: GeofenceAlert, baseUrl?: string) {
+  const base = baseUrl || appConfig.url;
+  const trackUrl = `${base}/track/${alert.tail}`;
+
+  // Airport fences read as arrivals/departures, anything else as entering/leaving an area
+  const action = alert.isAirport
+    ? (alert.event === 'enter' ? 'arrived at' : 'departed')
+    : (alert.event === 'enter' ? 'entered' : 'left');
+  const headline = `${alert.tail} ${action} ${alert.fenceName}`;
+  const when = alert.at.toUTCString();
+  const altitude = Number.isFinite(alert.altFt) ? `${(alert.altFt as number).toLocaleString()} ft` : 'unknown';
+
+  await sendEmail({
+    to: email,
+    subject: headline,
+    text: `${headline}.\n\nTime: ${when}\nAltitude: ${altitude}\n\nView the flight:\n\n${trackUrl}\n\nYou're receiving this because of a geofence alert set up in TrackMyBird.`,
+    html: `
+      <h2>${escapeHtml(headline)}</h2>
+      <p>Time: ${when}<br>Altitude: ${altitude}</p>
+      <p><a href="${trackUrl}" style="display: inline-block; padding: 12px 24px; background-color: #4f46e5; color: white; text-decoration: none; border-radius: 6px;">View Flight</a></p>
+      <p style="color: #6b7280; font-size: 14px;">You're receiving this because of a geofence alert set up in TrackMyBird.</p>
+    `,
+  });
+}
+
+export interface FlightEventNotice {
+  tail: string;
+  event: 'departed' | 'arrived';
+  origin: string | null;
+  destination: string | null;
+  at: Date;
+}
+
+// One-click unsubscribe (RFC 8058) so mail clients can offer an unsubscribe button
+function unsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
+export async function sendFlightEventEmail(email: string, notice: FlightEventNotice, unsubscribeToken: string, baseUrl?: string) {
+  const base = baseUrl || appConfig.url;
+  const unsubscribeUrl = `${base}/api/v/unsubscribe?token=${unsubscribeToken}`;
+
+  const route = notice.event === 'departed'
+    ? (notice.origin ? ` from ${notice.origin}` : '') + (notice.destination ? ` for ${notice.destination}` : '')
+    : (notice.destination ? ` at ${notice.destination}` : '');
+  const headline = `${notice.tail} has ${notice.event}${route}`;
+  const when = notice.at.toUTCString();
+
+  await sendEmail({
+    to: email,
+    subject: headline,
+    text: `${headline}.\n\nTime: ${when}\n\nYou're receiving this because you subscribed to flight notifications for ${notice.tail} on TrackMyBird.\n\nUnsubscribe:\n\n${unsubscribeUrl}`,
+    html: `
+      <h2>${headline}</h2>
+      <p>Time: ${when}</p>
+      <p style="color: #6b7280; font-size: 14px;">You're receiving this because you subscribed to flight notifications for ${notice.tail} on TrackMyBird.</p>
+      <p style="color: #6b7280; font-size: 14px;"><a href="${unsubscribeUrl}">Unsubscribe</a></p>
+    `,
+    headers: unsubscribeHeaders(unsubscribeUrl),
+  });
+}
+
+export async function sendSubscriptionConfirmationEmail(email: string, tails: string[], confirmToken: string, unsubscribeToken: string, baseUrl?: string) {
+  const base = baseUrl || appConfig.url;
+  const confirmUrl = `${base}/api/v/subscribe/confirm?token=${confirmToken}`;
+  const unsubscribeUrl = `${base}/api/v/unsubscribe?token=${unsubscribeToken}`;
+  const aircraftList = tails.join(', ');
+
+  await sendEmail({
+    to: email,
+    subject: `Confirm flight notifications for ${aircraftList}`,
+    text: `Confirm your email to get a message when ${aircraftList} departs or arrives:\n\n${confirmUrl}\n\nNotifications stop automatically when your tracking access is revoked or expires.\n\nIf you didn't ask for this, ignore this email or unsubscribe here:\n\n${unsubscribeUrl}`,
+    html: `
+      <h2>Confirm flight notifications</h2>
+      <p>Confirm your email to get a message when ${aircraftList} departs or arrives.</p>
+      <p><a href="${confirmUrl}" style="display: inline-block; padding: 12px 24px; background-color: #4f46e5; color: white; text-decoration: none; border-radius: 6px;">Confirm Subscription</a></p>
+      <p style="color: #6b7280; font-size: 14px;">Notifications stop automatically when your tracking access is revoked or expires.</p>
+      <p style="color: #6b7280; font-size: 14px;">If you didn't ask for this, ignore this email or <a href="${unsubscribeUrl}">unsubscribe here</a>.</p>
+    `,
+    headers: unsubscribeHeaders(unsubscribeUrl),
+  });
+}
@@ -0,0 +1,222 @@
+/**
+ * Flight leg segmentation (logbook)
+ * Splits an aircraft's stored position history into discrete legs at reception
+ * gaps and landings, and keeps the flights table in sync.
+ */
+
+import { db } from '@/db';
+import { flights, type Flight } from '@/db/schema';
+import { and, desc, eq, gte, inArray, isNotNull, isNull, lte, notInArray, or, sql } from 'drizzle-orm';
+import { appConfig } from '@/config/app';
+import { getPositions } from './positionHistory';
+import type { FlightStatus, Point } from './statusAdapter';
+
+export interface FlightLeg {
+  points: Point[];
+  offAt: number;        // Unix seconds
+  onAt: number | null;  // Unix seconds, null while in progress
+  maxAltFt: number | null;
+}
+
+// Provider altitudes read 0 on the ground; imported track logs are MSL, so they go by ground speed
+const isAirborne = (p: Point) =>
+  p.source ? (p.gs_kt ?? 0) >= appConfig.flights.importGroundSpeedKt : (p.alt_ft ?? 1) > 0;
+
+/**
+ * Split time-ordered points into legs
+ * A new leg starts after a gap longer than legGapSeconds or after a landing
+ * (a ground point following airborne points)
+ */
+export function segmentLegs(points: Point[], now: number = Date.now() / 1000): FlightLeg[] {
+  const { legGapSeconds, minLegPoints } = appConfig.flights;
+  const sorted = points
+    .filter(p => p.ts && Number.isFinite(p.lat) && Number.isFinite(p.lon))
+    .sort((a, b) => a.ts! - b.ts!);
+
+  const runs: { points: Point[]; landed: boolean }[] = [];
+  let current: Point[] = [];
+
+  for (const p of sorted) {
+    const prev = current[current.length - 1];
+    if (prev && p.ts! - prev.ts! > legGapSeconds) {
+      runs.push({ points: current, landed: false });
+      current = [];
+    }
+
+    // Only the last ground point before takeoff is kept (taxi isn't part of the leg)
+    if (!isAirborne(p) && current.length > 0 && !current.some(isAirborne)) {
+      current = [];
+    }
+
+    current.push(p);
+
+    if (!isAirborne(p) && current.some(isAirborne)) {
+      runs.push({ points: current, landed: true });
+      current = [];
+    }
+  }
+  if (current.length > 0) {
+    runs.push({ points: current, landed: false });
+  }
+
+  return runs
+    .filter(run => run.points.length >= minLegPoints && run.points.some(isAirborne))
+    .map(run => {
+      const first = run.points[0];
+      const last = run.points[run.points.length - 1];
+      const completed = run.landed || now - last.ts! > legGapSeconds;
+      let maxAltFt: number | null = null;
+      for (const p of run.points) {
+        if (Number.isFinite(p.alt_ft) && (maxAltFt === null || p.alt_ft! > maxAltFt)) maxAltFt = p.alt_ft!;
+      }
+
+      return {
+        points: run.points,
+        offAt: first.ts!,
+        onAt: completed ? last.ts! : null,
+        maxAltFt,
+      };
+    });
+}
+
+// The provider's origin/destination belong to the leg containing its latest point
+function legMatchesStatus(leg: FlightLeg, status: FlightStatus): boolean {
+  const lastTs = status.points[status.points.length - 1]?.ts;
+  if (!lastTs) return false;
+  return lastTs >= leg.offAt && (leg.onAt === null || lastTs <= leg.onAt);
+}
+
+/**
+ * Re-segment recent history for an aircraft row and upsert its legs
+ * Starts from the most recent stored leg so completed legs aren't rewritten
+ * @param from Unix seconds; re-segment from here instead when older history changed (imported track logs)
+ */
+export async function updateFlightLegs(aircraftId: number, status?: FlightStatus, from?: number): Promise<void> {
+  const [latest] = await db
+    .select({ offAt: flights.offAt })
+    .from(flights)
+    .where(eq(flights.aircraftId, aircraftId))
+    .orderBy(desc(flights.offAt))
+    .limit(1);
+
+  let since = latest ? Math.floor(latest.offAt.getTime() / 1000) : undefined;
+
+  if (since !== undefined && from !== undefined && from < since) {
+    // Start at the leg the new points may join (overlapping, or ending within a leg gap) so it is rebuilt whole
+    const [overlapping] = await db
+      .select({ offAt: flights.offAt })
+      .from(flights)
+      .where(and(
+        eq(flights.aircraftId, aircraftId),
+        lte(flights.offAt, new Date(from * 1000)),
+        or(isNull(flights.onAt), gte(flights.onAt, new Date((from - appConfig.flights.legGapSeconds) * 1000))),
+      ))
+      .orderBy(desc(flights.offAt))
+      .limit(1);
+
+    since = overlapping ? Math.floor(overlapping.offAt.getTime() / 1000) : from;
+  }
+
+  const legs = segmentLegs(await getPositions(aircraftId, { since }));
+
+  for (const leg of legs) {
+    const matches = status ? legMatchesStatus(leg, status) : false;
+
+    await db
+      .insert(flights)
+      .values({
+        aircraftId,
+        departureAirport: matches ? status!.originAirport : null,
+        arrivalAirport: matches ? status!.destinationAirport : null,
+        offAt: new Date(leg.offAt * 1000),
+        onAt: leg.onAt ? new Date(leg.onAt * 1000) : null,
+        airTimeSec: leg.onAt ? leg.onAt - leg.offAt : null,
+        maxAltFt: leg.maxAltFt,
+        track: leg.points.map(p => [Number(p.lat.toFixed(5)), Number(p.lon.toFixed(5))]),
+        pointCount: leg.points.length,
+      })
+      .onConflictDoUpdate({
+        target: [flights.aircraftId, flights.offAt],
+        set: {
+          // Keep airports learned earlier if the current status doesn't cover this leg
+          departureAirport: sql`coalesce(excluded.departure_airport, ${flights.departureAirport})`,
+          arrivalAirport: sql`coalesce(excluded.arrival_airport, ${flights.arrivalAirport})`,
+          onAt: sql`excluded.on_at`,
+          airTimeSec: sql`excluded.air_time_sec`,
+          maxAltFt: sql`excluded.max_alt_ft`,
+          track: sql`excluded.track`,
+          pointCount: sql`excluded.point_count`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  // Drop legs from the re-segmented window that no longer exist (e.g. merged after a gap filled in)
+  if (since !== undefined) {
+    const conditions = [eq(flights.aircraftId, aircraftId), gte(flights.offAt, new Date(since * 1000))];
+    if (legs.length > 0) {
+      conditions.push(notInArray(flights.offAt, legs.map(leg => new Date(leg.offAt * 1000))));
+    }
+    await db.delete(flights).where(and(...conditions));
+  }
+}
+
+/**
+ * List logbook legs for an aircraft row, newest first
+ */
+export async function listFlights(aircraftId: number, limit: number = 50): Promise<Flight[]> {
+  return db
+    .select()
+    .from(flights)
+    .where(eq(flights.aircraftId, aircraftId))
+    .orderBy(desc(flights.offAt))
+    .limit(limit);
+}
+
+/**
+ * Get a single logbook leg by ID
+ */
+export async function getFlight(flightId: number): Promise<Flight | null> {
+  const [flight] = await db
+    .select()
+    .from(flights)
+    .where(eq(flights.id, flightId))
+    .limit(1);
+
+  return flight || null;
+}
+
+/**
+ * Recent legs of the given aircraft rows that departed from or arrived at an airport
+ * @param codes Every code the airport goes by (legs store whatever the provider reported)
+ */
+export async function listAirportMovements(
+  codes: string[],
+  aircraftIds: number[],
+  limit: number = 10
+): Promise<{ departures: Flight[]; arrivals: Flight[] }> {
+  if (codes.length === 0 || aircraftIds.length === 0) {
+    return { departures: [], arrivals: [] };
+  }
+
+  const [departures, arrivals] = await Promise.all([
+    db
+      .select()
+      .from(flights)
+      .where(and(inArray(flights.aircraftId, aircraftIds), inArray(flights.departureAirport, codes)))
+      .orderBy(desc(flights.offAt))
+      .limit(limit),
+    db
+      .select()
+      .from(flights)
+      .where(and(
+        inArray(flights.aircraftId, aircraftIds),
+        inArray(flights.arrivalAirport, codes),
+        isNotNull(flights.onAt),
+      ))
+      .orderBy(desc(flights.onAt))
+      .limit(limit),
+  ]);
+
+  return { departures, arrivals };
+}
@@ -0,0 +1,44 @@
+/**
+ * Flight status recorder
+ * Persists provider results for owner-registered aircraft: position history
+ * and the logbook legs derived from it. Also the hook for guest departed/arrived
+ * notifications, which run on every recorded status.
+ */
+
+import { findRegisteredAircraft, savePositions } from './positionHistory';
+import { updateFlightLegs } from './flightLegs';
+import { notifyGuestSubscribers } from './guestSubscriptions';
+import type { FlightStatus } from './statusAdapter';
+
+// Newest timestamp already written per aircraft row, so repeat/cached lookups skip the DB
+const lastRecordedTs = new Map<number, number>();
+
+/**
+ * Persist a flight status for every registered aircraft row it belongs to
+ * Unregistered aircraft are not stored
+ */
+export async function recordFlightStatus(status: FlightStatus): Promise<void> {
+  const rows = await findRegisteredAircraft(status.hex, status.tail);
+
+  for (const row of rows) {
+    await notifyGuestSubscribers(row, status).catch((err) => {
+      console.error('[subscriptions] Failed to process flight events:', err);
+    });
+
+    const since = lastRecordedTs.get(row.id) ?? 0;
+    const fresh = status.points.filter(p => (p.ts ?? 0) > since);
+    if (fresh.length === 0) continue;
+
+    const written = await savePositions(row.id, fresh);
+    let latest = since;
+    for (const p of fresh) {
+      if ((p.ts ?? 0) > latest) latest = p.ts!;
+    }
+    lastRecordedTs.set(row.id, latest);
+
+    if (written > 0) {
+      console.log(`[positions] ${row.tail}: stored ${written} new points`);
+      await updateFlightLegs(row.id, status);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Geo helpers
+ * Distances and derived kinematics for track points
+ */
+
+import type { Point } from './statusAdapter';
+
+const EARTH_RADIUS_NM = 3440.065;
+
+// Successive points further apart than this are a reception gap, not a rate
+const MAX_RATE_GAP_SECONDS = 5 * 60;
+
+/**
+ * Great-circle distance between two positions in nautical miles
+ */
+export function distanceNm(aLat: number, aLon: number, bLat: number, bLon: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(bLat - aLat);
+  const dLon = toRad(bLon - aLon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(aLat)) * Math.cos(toRad(bLat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_NM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Fill in ground speed and vertical rate the providers didn't report,
+ * derived from the previous point (points must be oldest first)
+ */
+export function withDerivedRates(points: Point[]): Point[] {
+  return points.map((p, i) => {
+    const prev = points[i - 1];
+    if (!prev || (p.gs_kt !== undefined && p.vr_fpm !== undefined)) return p;
+    if (p.ts === undefined || prev.ts === undefined) return p;
+
+    const dt = p.ts - prev.ts;
+    if (dt <= 0 || dt > MAX_RATE_GAP_SECONDS) return p;
+
+    const gs = Math.round((distanceNm(prev.lat, prev.lon, p.lat, p.lon) / dt) * 3600);
+    const vr = p.alt_ft !== undefined && prev.alt_ft !== undefined
+      ? Math.round(((p.alt_ft - prev.alt_ft) / dt) * 60)
+      : undefined;
+
+    return { ...p, gs_kt: p.gs_kt ?? gs, vr_fpm: p.vr_fpm ?? vr };
+  });
+}
@@ -0,0 +1,159 @@
+/**
+ * Geofence alerts
+ * A background evaluator walks the stored position history of owner-registered
+ * aircraft and emails the owner's verified address when an aircraft enters or
+ * leaves one of the owner's geofences.
+ */
+
+import { db } from '@/db';
+import { aircraft, geofences, geofenceStates, users, type Aircraft, type Geofence } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { appConfig } from '@/config/app';
+import { sendGeofenceAlertEmail } from './email';
+import { getPositions } from './positionHistory';
+import { distanceNm } from './geo';
+import type { Point } from './statusAdapter';
+
+// History considered when an aircraft is evaluated against a geofence for the first time
+const BASELINE_WINDOW_SECONDS = 60 * 60;
+
+// Ray casting; vertices are [lat, lon] pairs
+function pointInPolygon(lat: number, lon: number, polygon: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lonI] = polygon[i];
+    const [latJ, lonJ] = polygon[j];
+    const crosses = (latI > lat) !== (latJ > lat) &&
+      lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Whether a position lies inside a geofence
+ */
+export function isInsideGeofence(fence: Geofence, p: Point): boolean {
+  if (fence.kind === 'polygon') {
+    const polygon = Array.isArray(fence.polygon) ? fence.polygon as [number, number][] : [];
+    return polygon.length >= 3 && pointInPolygon(p.lat, p.lon, polygon);
+  }
+
+  if (fence.centerLat === null || fence.centerLon === null || fence.radiusNm === null) return false;
+  return distanceNm(fence.centerLat, fence.centerLon, p.lat, p.lon) <= fence.radiusNm;
+}
+
+// Alerts only go to the owner's own verified address, so geofences can't be used to email strangers
+async function notify(fence: Geofence, row: Aircraft, ownerEmail: string, event: 'enter' | 'exit', p: Point) {
+  try {
+    await sendGeofenceAlertEmail(ownerEmail, {
+      tail: row.tail,
+      fenceName: fence.name,
+      event,
+      isAirport: !!fence.airportCode,
+      at: new Date(p.ts! * 1000),
+      altFt: p.alt_ft,
+    });
+  } catch (error) {
+    console.error(`[geofences] Failed to email ${ownerEmail} for fence ${fence.id}:`, error);
+  }
+}
+
+/**
+ * Evaluate one aircraft against one geofence, from where the last run stopped
+ * Only the net change since the last run is alerted, so circuits and
+ * touch-and-gos inside one interval don't send a burst of emails.
+ * The first run only records a baseline.
+ */
+async function evaluateGeofence(fence: Geofence, row: Aircraft, ownerEmail: string): Promise<void> {
+  const [state] = await db
+    .select()
+    .from(geofenceStates)
+    .where(and(eq(geofenceStates.geofenceId, fence.id), eq(geofenceStates.aircraftId, row.id)))
+    .limit(1);
+
+  const lastTs = state ? state.lastTs.getTime() / 1000 : Date.now() / 1000 - BASELINE_WINDOW_SECONDS;
+  const points = (await getPositions(row.id, { since: Math.floor(lastTs) }))
+    .filter(p => p.ts !== undefined && p.ts > lastTs);
+  if (points.length === 0) return;
+
+  const latest = points[points.length - 1];
+  const inside = isInsideGeofence(fence, latest);
+
+  if (state && inside !== state.inside) {
+    const event = inside ? 'enter' : 'exit';
+    if ((event === 'enter' && fence.alertOnEnter) || (event === 'exit' && fence.alertOnExit)) {
+      // Report the first position on the new side of the boundary
+      const crossing = points.find(p => isInsideGeofence(fence, p) === inside) || latest;
+      console.log(`[geofences] ${row.tail} ${event} "${fence.name}"`);
+      await notify(fence, row, ownerEmail, event, crossing);
+    }
+  }
+
+  await db
+    .insert(geofenceStates)
+    .values({
+      geofenceId: fence.id,
+      aircraftId: row.id,
+      inside,
+      lastTs: new Date(latest.ts! * 1000),
+    })
+    .onConflictDoUpdate({
+      target: [geofenceStates.geofenceId, geofenceStates.aircraftId],
+      set: { inside, lastTs: new Date(latest.ts! * 1000), updatedAt: new Date() },
+    });
+}
+
+/**
+ * Evaluate every geofence against the aircraft it covers
+ */
+export async function evaluateGeofences(): Promise<void> {
+  const fences = await db
+    .select({ fence: geofences, ownerEmail: users.email })
+    .from(geofences)
+    .innerJoin(users, eq(geofences.ownerUserId, users.id));
+
+  for (const { fence, ownerEmail } of fences) {
+    const rows = await db
+      .select()
+      .from(aircraft)
+      .where(
+        fence.aircraftId !== null
+          ? and(eq(aircraft.id, fence.aircraftId), eq(aircraft.ownerUserId, fence.ownerUserId))
+          : eq(aircraft.ownerUserId, fence.ownerUserId)
+      );
+
+    for (const row of rows) {
+      try {
+        await evaluateGeofence(fence, row, ownerEmail);
+      } catch (error) {
+        console.error(`[geofences] Evaluation failed for fence ${fence.id} / ${row.tail}:`, error);
+      }
+    }
+  }
+}
+
+let evaluatorTimer: ReturnType<typeof setInterval> | null = null;
+let evaluating = false;
+
+/**
+ * Start the background evaluator (idempotent; called from instrumentation)
+ */
+export function startGeofenceEvaluator(): void {
+  if (evaluatorTimer) return;
+
+  evaluatorTimer = setInterval(async () => {
+    // Skip a tick rather than overlapping runs when the DB is slow
+    if (evaluating) return;
+    evaluating = true;
+    try {
+      await evaluateGeofences();
+    } catch (error) {
+      console.error('[geofences] Evaluation run failed:', error);
+    } finally {
+      evaluating = false;
+    }
+  }, appConfig.geofences.evaluateIntervalMs);
+
+  console.log('[geofences] Evaluator started');
+}
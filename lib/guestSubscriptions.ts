@@ -0,0 +1,190 @@
+/**
+ * Guest flight notifications
+ * Guests subscribe with their email to "departed" / "arrived" events for the
+ * aircraft on their guest token, and get them once they confirm the address.
+ * Events are detected from the airborne track points and lastSeen of a
+ * FlightStatus whenever a status is recorded, and stop as soon as the token
+ * is revoked, expires or goes dormant.
+ */
+
+import crypto from 'crypto';
+import { db } from '@/db';
+import { guestSubscriptions, guestTokens, type Aircraft, type GuestSubscription, type GuestToken } from '@/db/schema';
+import { and, eq, gt, isNotNull, isNull, lt, or, sql } from 'drizzle-orm';
+import { appConfig } from '@/config/app';
+import { sendFlightEventEmail } from './email';
+import { isAirborne } from './statusSnapshots';
+import { checkGuestTokenRow } from './trackAccess';
+import type { FlightStatus } from './statusAdapter';
+
+// Links in subscription emails are signed rather than stored, one purpose per link type
+function sign(purpose: 'unsubscribe' | 'confirm', subscriptionId: number): string {
+  return crypto
+    .createHmac('sha256', process.env.SESSION_SECRET || '')
+    .update(`${purpose}:${subscriptionId}`)
+    .digest('hex');
+}
+
+function verify(purpose: 'unsubscribe' | 'confirm', token: string): number | null {
+  const [idStr, signature] = token.split('.');
+  const subscriptionId = parseInt(idStr, 10);
+  if (!subscriptionId || !signature) return null;
+
+  const expected = Buffer.from(sign(purpose, subscriptionId), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+  return subscriptionId;
+}
+
+/**
+ * Create the one-click unsubscribe token for a subscription ("<id>.<hmac>")
+ * Signed rather than stored, so it can be put in every notification email
+ */
+export function createUnsubscribeToken(subscriptionId: number): string {
+  return `${subscriptionId}.${sign('unsubscribe', subscriptionId)}`;
+}
+
+/**
+ * Verify an unsubscribe token
+ * @returns subscription ID, or null if the token is malformed or forged
+ */
+export function parseUnsubscribeToken(token: string): number | null {
+  return verify('unsubscribe', token);
+}
+
+/**
+ * Create the token for a subscription's confirmation link ("<id>.<hmac>")
+ */
+export function createConfirmationToken(subscriptionId: number): string {
+  return `${subscriptionId}.${sign('confirm', subscriptionId)}`;
+}
+
+/**
+ * Verify a confirmation token
+ * @returns subscription ID, or null if the token is malformed or forged
+ */
+export function parseConfirmationToken(token: string): number | null {
+  return verify('confirm', token);
+}
+
+/**
+ * Number of unconfirmed subscriptions for an email address, across all guest tokens
+ */
+export async function countPendingSubscriptions(email: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(guestSubscriptions)
+    .where(and(eq(guestSubscriptions.email, email), isNull(guestSubscriptions.confirmedAt)));
+
+  return Number(row?.count ?? 0);
+}
+
+// Confirmed subscriptions whose token covers this aircraft and is still usable
+// (not revoked, expired or dormant, as for viewing the track)
+async function activeSubscriptionsFor(row: Aircraft): Promise<{ subscription: GuestSubscription; token: GuestToken }[]> {
+  const now = new Date();
+  const rows = await db
+    .select({ subscription: guestSubscriptions, token: guestTokens })
+    .from(guestSubscriptions)
+    .innerJoin(guestTokens, eq(guestSubscriptions.guestTokenId, guestTokens.id))
+    .where(
+      and(
+        isNotNull(guestSubscriptions.confirmedAt),
+        eq(guestTokens.revoked, false),
+        or(isNull(guestTokens.expiresAt), gt(guestTokens.expiresAt, now)),
+        sql`${guestTokens.aircraftIds}::jsonb @> ${JSON.stringify([row.id])}::jsonb`
+      )
+    );
+
+  const active = [];
+  for (const entry of rows) {
+    if ((await checkGuestTokenRow(entry.token)).token) active.push(entry);
+  }
+  return active;
+}
+
+// Departure needs evidence the aircraft actually flew: firstSeen alone may be the scheduled time
+function takeoffTime(status: FlightStatus): number | null {
+  const airborne = status.points.find(p => p.ts && p.alt_ft !== undefined && p.alt_ft > 0);
+  return airborne?.ts ?? null;
+}
+
+/**
+ * Claim an event for a subscription, so concurrent recorders don't email twice
+ * Legs departing within legGapSeconds of the last notified one count as the same flight
+ */
+async function claimEvent(subscriptionId: number, event: 'departed' | 'arrived', flightAt: Date): Promise<boolean> {
+  const column = event === 'departed' ? guestSubscriptions.lastDepartedFlightAt : guestSubscriptions.lastArrivedFlightAt;
+  const update = event === 'departed' ? { lastDepartedFlightAt: flightAt } : { lastArrivedFlightAt: flightAt };
+  const sameFlightBefore = new Date(flightAt.getTime() - appConfig.flights.legGapSeconds * 1000);
+
+  const claimed = await db
+    .update(guestSubscriptions)
+    .set(update)
+    .where(and(eq(guestSubscriptions.id, subscriptionId), or(isNull(column), lt(column, sameFlightBefore))))
+    .returning({ id: guestSubscriptions.id });
+
+  return claimed.length > 0;
+}
+
+/**
+ * Email guest subscribers about departures/arrivals in a flight status
+ * Events before the subscription was created, or not yet past the token's
+ * position delay, are not sent.
+ */
+export async function notifyGuestSubscribers(row: Aircraft, status: FlightStatus): Promise<void> {
+  // Private aircraft are hidden from guests entirely
+  if (row.privacyMode === 'private') return;
+
+  const now = Date.now() / 1000;
+  const departedAt = takeoffTime(status);
+  if (!departedAt) return;
+
+  const hasDeparted = departedAt <= now;
+  const arrivedAt = status.lastSeen && status.lastSeen > departedAt && status.lastSeen <= now && !isAirborne(status, now)
+    ? status.lastSeen
+    : null;
+  if (!hasDeparted && !arrivedAt) return;
+
+  const subscriptions = await activeSubscriptionsFor(row);
+  const flightAt = new Date(departedAt * 1000);
+
+  for (const { subscription, token } of subscriptions) {
+    const delay = token.delaySeconds ?? 0;
+    const subscribedAt = subscription.createdAt.getTime() / 1000;
+    const unsubscribeToken = createUnsubscribeToken(subscription.id);
+
+    try {
+      if (
+        hasDeparted && subscription.notifyDeparted &&
+        departedAt >= subscribedAt && departedAt + delay <= now &&
+        await claimEvent(subscription.id, 'departed', flightAt)
+      ) {
+        await sendFlightEventEmail(subscription.email, {
+          tail: row.tail,
+          event: 'departed',
+          origin: status.originAirport,
+          destination: status.destinationAirport,
+          at: flightAt,
+        }, unsubscribeToken);
+      }
+
+      if (
+        arrivedAt && subscription.notifyArrived &&
+        arrivedAt >= subscribedAt && arrivedAt + delay <= now &&
+        await claimEvent(subscription.id, 'arrived', flightAt)
+      ) {
+        await sendFlightEventEmail(subscription.email, {
+          tail: row.tail,
+          event: 'arrived',
+          origin: status.originAirport,
+          destination: status.destinationAirport,
+          at: new Date(arrivedAt * 1000),
+        }, unsubscribeToken);
+      }
+    } catch (error) {
+      console.error(`[subscriptions] Failed to notify subscription ${subscription.id}:`, error);
+    }
+  }
+}
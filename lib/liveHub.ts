@@ -0,0 +1,103 @@
+/**
+ * Live flight status hub
+ * Runs one upstream poll per aircraft, however many viewers are connected,
+ * and fans each result out to every subscriber (SSE streams).
+ */
+
+import { appConfig } from '@/config/app';
+import type { FlightStatus } from './statusAdapter';
+import { getCurrentStatus } from './statusSnapshots';
+
+export interface LiveUpdate {
+  status?: FlightStatus;
+  error?: string;
+}
+
+type Listener = (update: LiveUpdate) => void;
+
+interface Channel {
+  hex: string;
+  listeners: Set<Listener>;
+  timer: ReturnType<typeof setInterval> | null;
+  polling: boolean;
+  last: LiveUpdate | null;
+}
+
+const channels = new Map<string, Channel>();
+
+function broadcast(channel: Channel, update: LiveUpdate): void {
+  channel.last = update;
+  for (const listener of channel.listeners) {
+    try {
+      listener(update);
+    } catch (error) {
+      console.error(`[live] Listener failed for ${channel.hex}:`, error);
+    }
+  }
+}
+
+async function poll(channel: Channel): Promise<void> {
+  // Skip a tick rather than stacking requests when the provider is slow
+  if (channel.polling) return;
+  channel.polling = true;
+
+  try {
+    const status = await getCurrentStatus({ hex: channel.hex });
+    broadcast(channel, { status });
+  } catch (error) {
+    broadcast(channel, { error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    channel.polling = false;
+  }
+}
+
+/**
+ * Subscribe to live updates for an aircraft
+ * The listener immediately receives the latest known result, if any
+ * @returns unsubscribe function
+ */
+export function subscribeToAircraft(hex: string, listener: Listener): () => void {
+  const key = hex.toLowerCase();
+  let channel = channels.get(key);
+
+  if (!channel) {
+    channel = { hex: key, listeners: new Set(), timer: null, polling: false, last: null };
+    channels.set(key, channel);
+  }
+
+  channel.listeners.add(listener);
+
+  if (channel.last) {
+    listener(channel.last);
+  }
+
+  if (!channel.timer) {
+    const ch = channel;
+    ch.timer = setInterval(() => poll(ch), appConfig.live.pollIntervalMs);
+    poll(ch);
+    console.log(`[live] Started polling ${key}`);
+  }
+
+  return () => {
+    const ch = channels.get(key);
+    if (!ch) return;
+
+    ch.listeners.delete(listener);
+    if (ch.listeners.size === 0) {
+      if (ch.timer) clearInterval(ch.timer);
+      channels.delete(key);
+      console.log(`[live] Stopped polling ${key}`);
+    }
+  };
+}
+
+/**
+ * Number of aircraft being polled and viewers connected (for health reporting)
+ */
+export function getLiveStats(): { aircraft: number; viewers: number } {
+  let viewers = 0;
+  for (const channel of channels.values()) {
+    viewers += channel.listeners.size;
+  }
+  return { aircraft: channels.size, viewers };
+}
@@ -0,0 +1,80 @@
+/**
+ * Background polling worker
+ * Polls every owner-registered aircraft on an adaptive interval (fast while
+ * airborne, slow while parked) so history, logbooks and alerts don't depend on
+ * someone having the track page open. Results are stored in status_snapshots.
+ */
+
+import { db } from '@/db';
+import { aircraft, statusSnapshots } from '@/db/schema';
+import { appConfig } from '@/config/app';
+import { getProviderCallCount } from './providers/registry';
+import { pollStatus } from './statusSnapshots';
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+// Providers whose hourly quota is used up (user-driven lookups count too)
+function providersOverQuota(): string[] {
+  const quotas: Record<string, number | undefined> = appConfig.worker.providerQuotaPerHour;
+  return Object.entries(quotas)
+    .filter(([name, quota]) => quota !== undefined && getProviderCallCount(name) >= quota)
+    .map(([name]) => name);
+}
+
+/**
+ * Poll the registered aircraft that are due, most overdue first
+ */
+export async function runPollingTick(): Promise<void> {
+  const [hexRows, snapshots] = await Promise.all([
+    db.selectDistinct({ icaoHex: aircraft.icaoHex }).from(aircraft),
+    db.select({ icaoHex: statusSnapshots.icaoHex, nextPollAt: statusSnapshots.nextPollAt }).from(statusSnapshots),
+  ]);
+
+  const nextPollAt = new Map(snapshots.map(s => [s.icaoHex, s.nextPollAt.getTime()]));
+  const now = Date.now();
+
+  // Never-polled aircraft first (treated as due since epoch)
+  const due = hexRows
+    .map(r => ({ hex: r.icaoHex.toUpperCase(), at: nextPollAt.get(r.icaoHex.toUpperCase()) ?? 0 }))
+    .filter(r => r.at <= now)
+    .sort((a, b) => a.at - b.at)
+    .slice(0, appConfig.worker.maxPollsPerTick);
+
+  for (const { hex } of due) {
+    const exclude = providersOverQuota();
+    if (exclude.length > 0) {
+      console.log(`[worker] Over quota, skipping: ${exclude.join(', ')}`);
+    }
+
+    try {
+      const status = await pollStatus(hex.toLowerCase(), exclude);
+      console.log(`[worker] ${hex}: ${status.points.length} points`);
+    } catch (error) {
+      console.log(`[worker] ${hex}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Start the background worker (idempotent; called from instrumentation)
+ * Disable with POLLING_WORKER=off, e.g. when running several app instances
+ */
+export function startPollingWorker(): void {
+  if (workerTimer || !appConfig.worker.enabled) return;
+
+  workerTimer = setInterval(async () => {
+    // Skip a tick rather than overlapping runs when providers are slow
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runPollingTick();
+    } catch (error) {
+      console.error('[worker] Polling tick failed:', error);
+    } finally {
+      ticking = false;
+    }
+  }, appConfig.worker.tickMs);
+
+  console.log('[worker] Polling worker started');
+}
@@ -0,0 +1,95 @@
+/**
+ * Server-side position history for owner-registered aircraft
+ * Every track point returned by the providers is stored in the positions table,
+ * de-duplicated by (aircraft, timestamp), so history outlives provider retention.
+ */
+
+import { db } from '@/db';
+import { aircraft, positions, type Aircraft, type InsertPosition, type PositionSource } from '@/db/schema';
+import { and, asc, eq, gte, lte, or } from 'drizzle-orm';
+import type { Point } from './statusAdapter';
+
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Find the owner-registered aircraft rows for a flight status (any owner)
+ */
+export async function findRegisteredAircraft(hex: string, tail: string | null): Promise<Aircraft[]> {
+  const conditions = [];
+  if (hex) conditions.push(eq(aircraft.icaoHex, hex.toUpperCase()));
+  if (tail) conditions.push(eq(aircraft.tail, tail.toUpperCase()));
+  if (conditions.length === 0) return [];
+
+  return db
+    .select()
+    .from(aircraft)
+    .where(or(...conditions));
+}
+
+/**
+ * Save track points for an aircraft row
+ * Points without a timestamp are skipped; existing timestamps are ignored
+ * (provider data already stored wins over an imported track log and vice versa)
+ * @returns number of new rows written
+ */
+export async function savePositions(
+  aircraftId: number,
+  points: Point[],
+  source: PositionSource = 'provider'
+): Promise<number> {
+  const rows: InsertPosition[] = points
+    .filter(p => p.ts && Number.isFinite(p.lat) && Number.isFinite(p.lon))
+    .map(p => ({
+      aircraftId,
+      ts: new Date(p.ts! * 1000),
+      lat: p.lat,
+      lon: p.lon,
+      altFt: Number.isFinite(p.alt_ft) ? Math.round(p.alt_ft!) : null,
+      hdg: Number.isFinite(p.hdg) ? Math.round(p.hdg!) : null,
+      gsKt: Number.isFinite(p.gs_kt) ? Math.round(p.gs_kt!) : null,
+      vrFpm: Number.isFinite(p.vr_fpm) ? Math.round(p.vr_fpm!) : null,
+      source,
+    }));
+
+  let written = 0;
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const inserted = await db
+      .insert(positions)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoNothing({ target: [positions.aircraftId, positions.ts] })
+      .returning({ id: positions.id });
+    written += inserted.length;
+  }
+
+  return written;
+}
+
+/**
+ * Read stored positions for an aircraft row, oldest first
+ * @param since/until Unix seconds (inclusive)
+ */
+export async function getPositions(
+  aircraftId: number,
+  range: { since?: number; until?: number } = {}
+): Promise<Point[]> {
+  const conditions = [eq(positions.aircraftId, aircraftId)];
+  if (range.since) conditions.push(gte(positions.ts, new Date(range.since * 1000)));
+  if (range.until) conditions.push(lte(positions.ts, new Date(range.until * 1000)));
+
+  const rows = await db
+    .select()
+    .from(positions)
+    .where(and(...conditions))
+    .orderBy(asc(positions.ts));
+
+  return rows.map(row => ({
+    lat: row.lat,
+    lon: row.lon,
+    ts: Math.floor(row.ts.getTime() / 1000),
+    alt_ft: row.altFt ?? undefined,
+    hdg: row.hdg ?? undefined,
+    gs_kt: row.gsKt ?? undefined,
+    vr_fpm: row.vrFpm ?? undefined,
+    source: row.source === 'provider' ? undefined : row.source,
+  }));
+}
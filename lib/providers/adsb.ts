@@ -0,0 +1,132 @@
+/**
+ * Local ADS-B receiver provider (dump1090 / readsb JSON feed)
+ * Reads the receiver's aircraft.json for live positions and the readsb/tar1090
+ * trace_full_<hex>.json for recent history. Keyed by ICAO hex.
+ */
+
+import { appConfig } from '@/config/app';
+import type { FlightStatus, Point } from '../statusAdapter';
+import { ProviderError, createInitialHealth, parseRetryAfter, type FlightDataProvider } from './types';
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+async function fetchReceiverJson(path: string): Promise<any | null> {
+  const baseUrl = appConfig.adsb.url!.replace(/\/+$/, '');
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${path}`, {
+      cache: "no-store",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new ProviderError(
+      `Receiver unreachable: ${error instanceof Error ? error.message : String(error)}`,
+      "adsb",
+      undefined,
+      true
+    );
+  }
+
+  if (response.status >= 500) {
+    throw new ProviderError("Receiver error", "adsb", response.status, true, parseRetryAfter(response.headers.get("retry-after")));
+  }
+
+  // 404 is normal for aircraft the receiver hasn't seen
+  if (!response.ok) {
+    return null;
+  }
+
+  return response.json();
+}
+
+// readsb reports altitude as a number of feet or the string "ground"
+function parseAltitude(alt: unknown): number | undefined {
+  if (alt === 'ground') return 0;
+  return typeof alt === 'number' ? Math.round(alt) : undefined;
+}
+
+// Trace rows: [secondsAfterTimestamp, lat, lon, alt, gs, track, flags, vertRate, ...]
+function parseTrace(data: any): Point[] {
+  if (!data || !Array.isArray(data.trace) || typeof data.timestamp !== 'number') {
+    return [];
+  }
+
+  return data.trace
+    .filter((row: any[]) => Number.isFinite(row[1]) && Number.isFinite(row[2]))
+    .map((row: any[]) => ({
+      lat: row[1],
+      lon: row[2],
+      ts: Math.floor(data.timestamp + row[0]),
+      alt_ft: parseAltitude(row[3]),
+      hdg: typeof row[5] === 'number' ? Math.round(row[5]) : undefined,
+      gs_kt: typeof row[4] === 'number' ? Math.round(row[4]) : undefined,
+      vr_fpm: typeof row[7] === 'number' ? Math.round(row[7]) : undefined,
+    }));
+}
+
+// Keep only the most recent leg: everything after the last reception gap
+function currentLeg(points: Point[]): Point[] {
+  const gap = appConfig.adsb.legGapSeconds;
+  let start = 0;
+  for (let i = 1; i < points.length; i++) {
+    if ((points[i].ts ?? 0) - (points[i - 1].ts ?? 0) > gap) {
+      start = i;
+    }
+  }
+  return points.slice(start);
+}
+
+// Current position from aircraft.json, if the receiver is hearing the aircraft now
+function parseLivePosition(data: any, hex: string): Point | null {
+  if (!data || !Array.isArray(data.aircraft)) return null;
+
+  const ac = data.aircraft.find((a: any) => typeof a.hex === 'string' && a.hex.toLowerCase() === hex);
+  if (!ac || !Number.isFinite(ac.lat) || !Number.isFinite(ac.lon)) return null;
+
+  const now = typeof data.now === 'number' ? data.now : Date.now() / 1000;
+  return {
+    lat: ac.lat,
+    lon: ac.lon,
+    ts: Math.floor(now - (ac.seen_pos ?? 0)),
+    alt_ft: parseAltitude(ac.alt_baro),
+    hdg: typeof ac.track === 'number' ? Math.round(ac.track) : undefined,
+    gs_kt: typeof ac.gs === 'number' ? Math.round(ac.gs) : undefined,
+    vr_fpm: typeof (ac.baro_rate ?? ac.geom_rate) === 'number' ? Math.round(ac.baro_rate ?? ac.geom_rate) : undefined,
+  };
+}
+
+async function fetchFromReceiver(hex: string): Promise<Partial<FlightStatus> | null> {
+  const [traceData, aircraftData] = await Promise.all([
+    fetchReceiverJson(`/data/traces/${hex.slice(-2)}/trace_full_${hex}.json`),
+    fetchReceiverJson('/data/aircraft.json'),
+  ]);
+
+  const points = currentLeg(parseTrace(traceData));
+  const live = parseLivePosition(aircraftData, hex);
+
+  // Append the live position when it is newer than the trace
+  const lastTs = points.length > 0 ? points[points.length - 1].ts ?? 0 : 0;
+  if (live && (live.ts ?? 0) > lastTs) {
+    points.push(live);
+  }
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  console.log(`[ADS-B] ${hex}: ${points.length} points (live: ${live ? 'yes' : 'no'})`);
+  return { points };
+}
+
+export function createAdsbProvider(priority: number): FlightDataProvider {
+  return {
+    name: 'adsb',
+    label: 'ADS-B',
+    capabilities: ['track'],
+    priority,
+    health: createInitialHealth(),
+    isConfigured: () => !!appConfig.adsb.url,
+    fetchFlight: async ({ hex }) => (hex ? fetchFromReceiver(hex.toLowerCase()) : null),
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * airport-data.com provider
+ * Fills in airport names and coordinates missing from flight providers
+ */
+
+import type { AirportInfo } from '../statusAdapter';
+import { createInitialHealth, type FlightDataProvider } from './types';
+
+// Airport data provider
+async function fetchAirportInfo(icao: string): Promise<AirportInfo | null> {
+  try {
+    const r = await fetch(
+      `https://airport-data.com/api/ap_info.json?icao=${icao}`,
+      { cache: "force-cache", next: { revalidate: 86400 } }
+    );
+    if (!r.ok) return null;
+    const data: any = await r.json();
+    return {
+      icao: data.icao || icao,
+      name: data.name || icao,
+      city: data.location || undefined,
+      country: data.country || "Unknown",
+      country_code: data.country_code || "XX",
+      lat: data.latitude ? parseFloat(data.latitude) : undefined,
+      lon: data.longitude ? parseFloat(data.longitude) : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function createAirportDataProvider(priority: number): FlightDataProvider {
+  return {
+    name: 'airport-data',
+    label: 'airport-data.com',
+    capabilities: ['airport'],
+    priority,
+    health: createInitialHealth(),
+    isConfigured: () => true,
+    fetchAirport: fetchAirportInfo,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * AviationStack provider
+ * Fallback source for origin/destination metadata
+ */
+
+import type { FlightStatus } from '../statusAdapter';
+import { ProviderError, createInitialHealth, parseRetryAfter, type FlightDataProvider } from './types';
+import { recordUsage } from './usage';
+
+// AviationStack provider
+async function fetchFromAviationStack(tail: string): Promise<Partial<FlightStatus> | null> {
+  const apiKey = process.env.AVIATIONSTACK_API_KEY;
+  if (!apiKey) return null;
+  
+  try {
+    const url = `http://api.aviationstack.com/v1/flights?access_key=${apiKey}&flight_iata=${tail}&limit=1`;
+    await recordUsage('aviationstack', '/v1/flights');
+    const response = await fetch(url);
+    
+    if (response.status === 401 || response.status === 403) {
+      throw new ProviderError("Unauthorized", "aviationstack", response.status, false);
+    }
+    
+    if (response.status === 429) {
+      throw new ProviderError("Rate limited", "aviationstack", 429, true, parseRetryAfter(response.headers.get("retry-after")));
+    }
+    
+    if (response.status >= 500) {
+      throw new ProviderError("Server error", "aviationstack", response.status, true, parseRetryAfter(response.headers.get("retry-after")));
+    }
+    
+    if (!response.ok) {
+      return null;
+    }
+    
+    const data: any = await response.json();
+    
+    if (!data.data || data.data.length === 0) {
+      return null;
+    }
+    
+    const flight = data.data[0];
+    return {
+      originAirport: flight.departure?.icao || flight.departure?.iata || null,
+      destinationAirport: flight.arrival?.icao || flight.arrival?.iata || null,
+    };
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      throw error;
+    }
+    throw new ProviderError(
+      error instanceof Error ? error.message : String(error),
+      "aviationstack",
+      undefined,
+      true
+    );
+  }
+}
+
+export function createAviationStackProvider(priority: number): FlightDataProvider {
+  return {
+    name: 'aviationstack',
+    label: 'AviationStack',
+    capabilities: ['metadata'],
+    priority,
+    health: createInitialHealth(),
+    isConfigured: () => !!process.env.AVIATIONSTACK_API_KEY,
+    fetchFlight: async ({ tail }) => (tail ? fetchFromAviationStack(tail) : null),
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * FlightAware AeroAPI provider
+ * Primary source for flight metadata, track points and filed route waypoints
+ */
+
+import type { FlightStatus } from '../statusAdapter';
+import { ProviderError, createInitialHealth, parseRetryAfter, type FlightDataProvider } from './types';
+import { recordUsage } from './usage';
+
+// Utility: Clean city names
+function cleanCityName(city: string | undefined): string | undefined {
+  if (!city) return undefined;
+  const withoutTimezone = city.includes('/') ? city.split('/').pop() || city : city;
+  return withoutTimezone.replace(/_/g, ' ');
+}
+
+// FlightAware provider - fetches metadata, track points, and waypoints
+// A parked aircraft only costs the /flights call until it departs
+async function fetchFromFlightAware(tail: string, parked = false): Promise<Partial<FlightStatus> | null> {
+  const apiKey = process.env.FLIGHTAWARE_API_KEY;
+  if (!apiKey) return null;
+  
+  try {
+    const url = `https://aeroapi.flightaware.com/aeroapi/flights/${encodeURIComponent(tail)}`;
+    await recordUsage('flightaware', '/flights/{ident}');
+    const response = await fetch(url, {
+      headers: { "x-apikey": apiKey },
+      cache: "no-store",
+    });
+    
+    if (response.status === 401 || response.status === 403) {
+      throw new ProviderError("Unauthorized", "flightaware", response.status, false);
+    }
+    
+    if (response.status === 429) {
+      throw new ProviderError("Rate limited", "flightaware", 429, true, parseRetryAfter(response.headers.get("retry-after")));
+    }
+    
+    if (response.status >= 500) {
+      throw new ProviderError("Server error", "flightaware", response.status, true, parseRetryAfter(response.headers.get("retry-after")));
+    }
+    
+    if (!response.ok) {
+      return null;
+    }
+    
+    const data: any = await response.json();
+    
+    if (!data.flights || data.flights.length === 0) {
+      console.log('[FlightAware] No flights array or empty flights array');
+      return null;
+    }
+    
+    // Find the active flight (En Route or recently completed)
+    // Priority: En Route > Scheduled (with actual_off) > most recent
+    const activeFlight = data.flights.find((f: any) => 
+      f.status && (
+        f.status.includes('En Route') || 
+        f.status.includes('Enroute')
+      )
+    ) || data.flights.find((f: any) => 
+      f.actual_off && !f.actual_on  // Departed but not arrived
+    ) || data.flights[0];  // Fallback to first flight
+    
+    const flight = activeFlight;
+    console.log(`[FlightAware] Selected flight: ${flight.ident} (${flight.fa_flight_id}) - Status: ${flight.status}`);
+    
+    const result: Partial<FlightStatus> = {};
+    
+    if (flight.origin) {
+      result.originAirport = flight.origin.code_icao || flight.origin.code_iata || flight.origin.code;
+      result.originInfo = {
+        icao: result.originAirport,
+        name: flight.origin.name,
+        city: cleanCityName(flight.origin.city),
+        country: "Unknown",
+        country_code: "XX",
+        lat: undefined,
+        lon: undefined,
+        timezone: flight.origin.timezone || undefined,
+      };
+    }
+    
+    if (flight.destination) {
+      result.destinationAirport = flight.destination.code_icao || flight.destination.code_iata || flight.destination.code;
+      result.destinationInfo = {
+        icao: result.destinationAirport,
+        name: flight.destination.name,
+        city: cleanCityName(flight.destination.city),
+        country: "Unknown",
+        country_code: "XX",
+        lat: undefined,
+        lon: undefined,
+        timezone: flight.destination.timezone || undefined,
+      };
+    }
+    
+    // Prioritize actual times over scheduled times
+    // For departure: actual_off > actual_out > scheduled_out
+    const departureTime = flight.actual_off || flight.actual_out || flight.scheduled_out;
+    if (departureTime) {
+      result.firstSeen = new Date(departureTime).getTime() / 1000;
+      console.log(`[FlightAware] Departure time: ${departureTime} (${flight.actual_off ? 'actual_off' : flight.actual_out ? 'actual_out' : 'scheduled_out'})`);
+    } else {
+      console.log('[FlightAware] No departure time available');
+    }
+    
+    // For arrival: actual_in > estimated_in > estimated_out > scheduled_in
+    const arrivalTime = flight.actual_in || flight.estimated_in || flight.estimated_out || flight.scheduled_in;
+    if (arrivalTime) {
+      result.lastSeen = new Date(arrivalTime).getTime() / 1000;
+      console.log(`[FlightAware] Arrival time: ${arrivalTime} (${flight.actual_in ? 'actual_in' : flight.estimated_in ? 'estimated_in' : flight.estimated_out ? 'estimated_out' : 'scheduled_in'})`);
+    } else {
+      console.log('[FlightAware] No arrival time available - flight may be en route without ETA');
+    }
+    
+    // Fetch track data and waypoints if available
+    const departed = (!!flight.actual_off && !flight.actual_on) || /En ?Route/i.test(flight.status || '');
+    if (parked && !departed) {
+      console.log('[FlightAware] Parked, skipping track and route');
+    } else if (flight.fa_flight_id && apiKey) {
+      // Fetch track points
+      try {
+        const trackUrl = `https://aeroapi.flightaware.com/aeroapi/flights/${encodeURIComponent(flight.fa_flight_id)}/track`;
+        await recordUsage('flightaware', '/flights/{id}/track');
+        const trackResponse = await fetch(trackUrl, {
+          headers: { "x-apikey": apiKey },
+          cache: "no-store",
+        });
+        
+        if (trackResponse.ok) {
+          const trackData: any = await trackResponse.json();
+          if (trackData.positions && Array.isArray(trackData.positions)) {
+            result.points = trackData.positions
+              .filter((pos: any) => 
+                Number.isFinite(pos.latitude) && 
+                Number.isFinite(pos.longitude)
+              )
+              .map((pos: any) => ({
+                lat: pos.latitude,
+                lon: pos.longitude,
+                ts: pos.timestamp ? Math.floor(new Date(pos.timestamp).getTime() / 1000) : undefined,
+                // AeroAPI reports altitude in hundreds of feet
+                alt_ft: typeof pos.altitude === "number" ? Math.round(pos.altitude * 100) : undefined,
+                hdg: typeof pos.heading === "number" ? Math.round(pos.heading) : undefined,
+                gs_kt: typeof pos.groundspeed === "number" ? Math.round(pos.groundspeed) : undefined,
+              }));
+          }
+        }
+      } catch (e) {
+        // Track data is optional for now, don't fail the whole request
+        console.warn('[FlightAware] Track fetch failed:', e);
+      }
+      
+      // Fetch waypoints
+      try {
+        const routeUrl = `https://aeroapi.flightaware.com/aeroapi/flights/${encodeURIComponent(flight.fa_flight_id)}/route`;
+        console.log('[FlightAware] Fetching route for', flight.fa_flight_id);
+        await recordUsage('flightaware', '/flights/{id}/route');
+        const routeResponse = await fetch(routeUrl, {
+          headers: { "x-apikey": apiKey },
+          cache: "no-store",
+        });
+        
+        console.log('[FlightAware] Route response status:', routeResponse.status);
+        
+        if (routeResponse.ok) {
+          const routeData: any = await routeResponse.json();
+          console.log('[FlightAware] Route data:', JSON.stringify(routeData, null, 2));
+          // FlightAware route endpoint returns "fixes" not "waypoints"
+          if (routeData.fixes && Array.isArray(routeData.fixes)) {
+            result.waypoints = routeData.fixes
+              .filter((fix: any) => 
+                Number.isFinite(fix.latitude) && 
+                Number.isFinite(fix.longitude)
+              )
+              .map((fix: any) => ({
+                name: fix.name || 'WAYPOINT',
+                lat: fix.latitude,
+                lon: fix.longitude,
+              }));
+            console.log('[FlightAware] Extracted waypoints from fixes:', result.waypoints.length);
+          } else {
+            console.log('[FlightAware] No fixes in route data');
+          }
+        }
+      } catch (e) {
+        // Waypoints are optional, don't fail the whole request
+        console.warn('[FlightAware] Route fetch failed:', e);
+      }
+    }
+    
+    return result;
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      throw error;
+    }
+    throw new ProviderError(
+      error instanceof Error ? error.message : String(error),
+      "flightaware",
+      undefined,
+      true
+    );
+  }
+}
+
+export function createFlightAwareProvider(priority: number): FlightDataProvider {
+  return {
+    name: 'flightaware',
+    label: 'FlightAware',
+    capabilities: ['metadata', 'track', 'route'],
+    priority,
+    health: createInitialHealth(),
+    isConfigured: () => !!process.env.FLIGHTAWARE_API_KEY,
+    // FlightAware requires tail numbers
+    fetchFlight: async ({ tail, parked }) => (tail ? fetchFromFlightAware(tail, parked) : null),
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Local airports provider
+ * Airport details from the airports table (OurAirports dataset); no network calls
+ */
+
+import type { AirportInfo } from '../statusAdapter';
+import { findAirport, toAirportInfo } from '../airports';
+import { createInitialHealth, type FlightDataProvider } from './types';
+
+async function fetchLocalAirport(code: string): Promise<AirportInfo | null> {
+  const airport = await findAirport(code);
+  return airport ? toAirportInfo(airport) : null;
+}
+
+export function createLocalAirportsProvider(priority: number): FlightDataProvider {
+  return {
+    name: 'airports',
+    label: 'Airport database',
+    capabilities: ['airport'],
+    priority,
+    health: createInitialHealth(),
+    isConfigured: () => true,
+    fetchAirport: fetchLocalAirport,
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Provider registry
+ * Holds the flight data providers used by the status adapter cascade.
+ * Default providers are registered at boot from appConfig.providers.order;
+ * providers can also be registered/unregistered directly (e.g. fakes in tests).
+ */
+
+import { appConfig } from '@/config/app';
+import { ProviderError, type FlightDataProvider, type ProviderCapability } from './types';
+import { createFlightAwareProvider } from './flightaware';
+import { createAviationStackProvider } from './aviationstack';
+import { createAirportDataProvider } from './airportData';
+import { createAdsbProvider } from './adsb';
+import { createLocalAirportsProvider } from './localAirports';
+
+// Built-in provider factories, keyed by the name used in config
+const BUILTIN_PROVIDERS: Record<string, (priority: number) => FlightDataProvider> = {
+  'adsb': createAdsbProvider,
+  'flightaware': createFlightAwareProvider,
+  'aviationstack': createAviationStackProvider,
+  'airports': createLocalAirportsProvider,
+  'airport-data': createAirportDataProvider,
+};
+
+const providers = new Map<string, FlightDataProvider>();
+let initialized = false;
+
+// Recent call timestamps per provider (last hour), for quota checks
+const CALL_WINDOW_MS = 60 * 60 * 1000;
+const recentCalls = new Map<string, number[]>();
+
+/**
+ * Register the built-in providers in the configured cascade order
+ * Priority is the position in the list (first = tried first)
+ */
+export function registerDefaultProviders(order: readonly string[] = appConfig.providers.order): void {
+  providers.clear();
+  initialized = true;
+
+  order.forEach((name, index) => {
+    const factory = BUILTIN_PROVIDERS[name];
+    if (!factory) {
+      console.warn(`[providers] Unknown provider in config: ${name}`);
+      return;
+    }
+    registerProvider(factory(index));
+  });
+
+  console.log(`[providers] Registered: ${order.filter(name => BUILTIN_PROVIDERS[name]).join(' → ')}`);
+}
+
+export function registerProvider(provider: FlightDataProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function unregisterProvider(name: string): void {
+  providers.delete(name);
+}
+
+/**
+ * Remove all providers without re-registering defaults
+ */
+export function clearProviders(): void {
+  providers.clear();
+  initialized = true;
+}
+
+/**
+ * Get configured providers in cascade order, optionally filtered by capability
+ */
+export function getProviders(capability?: ProviderCapability): FlightDataProvider[] {
+  // Route handlers may load in a different module graph than instrumentation
+  if (!initialized) {
+    registerDefaultProviders();
+  }
+
+  return Array.from(providers.values())
+    .filter(p => p.isConfigured())
+    .filter(p => !capability || p.capabilities.includes(capability))
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Whether the provider's circuit is open (skip it)
+ * Once the open period has passed the circuit goes half-open and lets a single trial
+ * call through; other callers are skipped until that call succeeds or fails
+ */
+export function isCircuitOpen(provider: FlightDataProvider): boolean {
+  const { health } = provider;
+  if (health.circuit === 'closed') return false;
+  if (health.trialInFlight) return true;
+
+  if (health.circuit === 'open') {
+    if (health.circuitOpenUntil !== null && Date.now() < health.circuitOpenUntil) {
+      return true;
+    }
+    health.circuit = 'half_open';
+    console.log(`[providers] ${provider.name} circuit half-open, trying again`);
+  }
+
+  health.trialInFlight = true;
+  return false;
+}
+
+export function markProviderSuccess(provider: FlightDataProvider): void {
+  provider.health.status = 'healthy';
+  provider.health.lastSuccessAt = Date.now();
+  provider.health.consecutiveFailures = 0;
+  provider.health.circuit = 'closed';
+  provider.health.circuitFailures = 0;
+  provider.health.circuitOpenUntil = null;
+  provider.health.trialInFlight = false;
+}
+
+export function markProviderFailure(provider: FlightDataProvider, error: unknown): void {
+  const { health } = provider;
+  health.status = 'failing';
+  health.lastFailureAt = Date.now();
+  health.lastError = error instanceof Error ? error.message : String(error);
+  health.consecutiveFailures += 1;
+  health.trialInFlight = false;
+
+  // Only overload responses count towards the breaker (not bad keys or network blips)
+  const overloaded = error instanceof ProviderError &&
+    (error.statusCode === 429 || (error.statusCode !== undefined && error.statusCode >= 500));
+  if (!overloaded) return;
+
+  health.circuitFailures += 1;
+  const { breakerThreshold, breakerCooldownMs } = appConfig.resilience;
+  const tripped = health.circuit === 'half_open' || health.circuitFailures >= breakerThreshold;
+
+  // An explicit Retry-After opens the circuit for that long even below the threshold
+  const openForMs = Math.max(tripped ? breakerCooldownMs : 0, error.retryAfterMs ?? 0);
+  if (openForMs > 0) {
+    health.circuit = 'open';
+    health.circuitOpenUntil = Date.now() + openForMs;
+    console.log(`[providers] ${provider.name} circuit open for ${Math.round(openForMs / 1000)}s`);
+  }
+}
+
+export function recordProviderCall(provider: FlightDataProvider): void {
+  const now = Date.now();
+  const calls = (recentCalls.get(provider.name) || []).filter(ts => now - ts < CALL_WINDOW_MS);
+  calls.push(now);
+  recentCalls.set(provider.name, calls);
+}
+
+/**
+ * Number of lookups made through a provider in the last hour (this process)
+ */
+export function getProviderCallCount(name: string): number {
+  const now = Date.now();
+  return (recentCalls.get(name) || []).filter(ts => now - ts < CALL_WINDOW_MS).length;
+}
+
+/**
+ * Snapshot of all registered providers for health reporting
+ */
+export function getProviderHealth() {
+  if (!initialized) {
+    registerDefaultProviders();
+  }
+
+  return Array.from(providers.values())
+    .sort((a, b) => a.priority - b.priority)
+    .map(p => ({
+      name: p.name,
+      priority: p.priority,
+      capabilities: p.capabilities,
+      configured: p.isConfigured(),
+      ...p.health,
+    }));
+}
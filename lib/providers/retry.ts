@@ -0,0 +1,41 @@
+/**
+ * Provider retries
+ * Retryable ProviderErrors (429, 5xx, network errors) get a bounded number of
+ * retries with exponential backoff and jitter, or after Retry-After if given.
+ */
+
+import { appConfig } from '@/config/app';
+import { ProviderError, type FlightDataProvider } from './types';
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a provider call, retrying retryable errors
+ * The last error is rethrown once retries run out or the wait would be too long
+ */
+export async function withRetry<T>(provider: FlightDataProvider, call: () => Promise<T>): Promise<T> {
+  const { maxRetries, retryBaseDelayMs, retryMaxDelayMs } = appConfig.resilience;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (!(error instanceof ProviderError) || !error.retryable || attempt >= maxRetries) {
+        throw error;
+      }
+
+      const backoffMs = Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** attempt);
+      const delayMs = error.retryAfterMs ?? Math.round(backoffMs * (0.5 + Math.random() / 2));
+
+      // Waiting longer than this is the circuit breaker's job
+      if (delayMs > retryMaxDelayMs) {
+        throw error;
+      }
+
+      console.log(`[${provider.label}] ${error.message}, retrying in ${delayMs}ms (${attempt + 1}/${maxRetries})`);
+      await sleep(delayMs);
+    }
+  }
+}
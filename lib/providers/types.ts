@@ -0,0 +1,90 @@
+/**
+ * Flight data provider contract
+ * Every data source (FlightAware, AviationStack, airport lookups, ...) implements
+ * FlightDataProvider and is registered with the provider registry at boot.
+ */
+
+import type { AirportInfo, FlightStatus } from '../statusAdapter';
+
+// What a provider can contribute to a FlightStatus
+// - metadata: origin/destination and departure/arrival times
+// - track: position history (points)
+// - route: filed route waypoints
+// - airport: airport details lookup by code
+export type ProviderCapability = 'metadata' | 'track' | 'route' | 'airport';
+
+export interface ProviderQuery {
+  hex: string | null;   // ICAO hex (lowercase) when known
+  tail: string | null;  // N-number (uppercase) when known
+  parked?: boolean;     // Last seen on the ground: skip per-flight track/route lookups unless it has departed
+}
+
+export interface ProviderHealth {
+  status: 'unknown' | 'healthy' | 'failing';
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  circuit: 'closed' | 'open' | 'half_open';  // Open: skipped until circuitOpenUntil, then one trial call
+  circuitFailures: number;                    // Consecutive 5xx/429 responses
+  circuitOpenUntil: number | null;
+  trialInFlight: boolean;                     // Half-open trial call running; other callers still skip
+}
+
+export interface FlightDataProvider {
+  name: string;                         // Stable identifier used in config (e.g. "flightaware")
+  label: string;                        // Human-readable name for logs and messages
+  capabilities: ProviderCapability[];
+  priority: number;                     // Lower runs first in the cascade
+  health: ProviderHealth;
+
+  // Whether the provider has what it needs to run (API keys, URLs)
+  isConfigured(): boolean;
+
+  // Required for metadata/track/route capabilities
+  fetchFlight?(query: ProviderQuery): Promise<Partial<FlightStatus> | null>;
+
+  // Required for the airport capability
+  fetchAirport?(code: string): Promise<AirportInfo | null>;
+}
+
+// Provider error types
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public statusCode?: number,
+    public retryable: boolean = false,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+export function createInitialHealth(): ProviderHealth {
+  return {
+    status: 'unknown',
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    lastError: null,
+    consecutiveFailures: 0,
+    circuit: 'closed',
+    circuitFailures: 0,
+    circuitOpenUntil: null,
+    trialInFlight: false,
+  };
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
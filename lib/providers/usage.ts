@@ -0,0 +1,117 @@
+/**
+ * Provider usage ledger and budgets
+ * Every billable provider call is counted per provider, endpoint and UTC day in
+ * provider_usage. Month-to-date totals are checked against appConfig.budgets:
+ * a provider close to its budget is degraded, the cascade skips it, and stored
+ * or cached data is served instead.
+ */
+
+import { db } from '@/db';
+import { providerUsage } from '@/db/schema';
+import { gte, sql } from 'drizzle-orm';
+import { appConfig } from '@/config/app';
+
+// Month-to-date totals are re-read from the DB at most this often (other processes count too)
+const TOTALS_TTL_MS = 60 * 1000;
+
+let monthTotals = new Map<string, number>();
+let totalsMonth = '';
+let totalsFetchedAt = 0;
+let refreshing: Promise<void> | null = null;
+
+function utcDay(d: Date = new Date()): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function utcMonthStart(d: Date = new Date()): string {
+  return `${d.toISOString().slice(0, 7)}-01`;
+}
+
+/**
+ * Count one billable call
+ * A failed ledger write is logged rather than failing the lookup
+ */
+export async function recordUsage(provider: string, endpoint: string): Promise<void> {
+  // Count locally right away so budget checks don't wait for the next refresh
+  monthTotals.set(provider, (monthTotals.get(provider) ?? 0) + 1);
+
+  try {
+    await db.insert(providerUsage)
+      .values({ provider, endpoint, day: utcDay(), calls: 1 })
+      .onConflictDoUpdate({
+        target: [providerUsage.provider, providerUsage.endpoint, providerUsage.day],
+        set: { calls: sql`${providerUsage.calls} + 1` },
+      });
+  } catch (err) {
+    console.error(`[usage] Failed to record ${provider} ${endpoint}:`, err);
+  }
+}
+
+/**
+ * Reload month-to-date totals from the ledger if they are older than a minute
+ */
+export async function refreshUsageTotals(): Promise<void> {
+  const month = utcMonthStart();
+  if (month === totalsMonth && Date.now() - totalsFetchedAt < TOTALS_TTL_MS) return;
+
+  if (!refreshing) {
+    refreshing = (async () => {
+      const rows = await db
+        .select({ provider: providerUsage.provider, calls: sql<number>`sum(${providerUsage.calls})::int` })
+        .from(providerUsage)
+        .where(gte(providerUsage.day, month))
+        .groupBy(providerUsage.provider);
+
+      monthTotals = new Map(rows.map(r => [r.provider, Number(r.calls)]));
+      totalsMonth = month;
+      totalsFetchedAt = Date.now();
+    })()
+      .catch((err) => {
+        // Keep the last known totals; budgets are still enforced on local counts
+        console.error('[usage] Failed to load usage totals:', err);
+        totalsFetchedAt = Date.now();
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+
+  await refreshing;
+}
+
+export function getMonthlyBudget(provider: string): number | null {
+  const budgets: Record<string, number | undefined> = appConfig.budgets.monthlyCalls;
+  return budgets[provider] ?? null;
+}
+
+/**
+ * Whether a provider has used up (nearly) all of this month's budget
+ */
+export function isProviderDegraded(provider: string): boolean {
+  const budget = getMonthlyBudget(provider);
+  if (budget === null) return false;
+  return (monthTotals.get(provider) ?? 0) >= budget * appConfig.budgets.degradeAtFraction;
+}
+
+/**
+ * Degraded mode: some billed provider is close to its budget, so stored and
+ * cached results are served even after they would normally be refreshed
+ */
+export function isDegraded(): boolean {
+  return Object.keys(appConfig.budgets.monthlyCalls).some(isProviderDegraded);
+}
+
+/**
+ * Month-to-date usage per budgeted provider (for health reporting)
+ */
+export async function getUsageSummary() {
+  await refreshUsageTotals();
+
+  return Object.keys(appConfig.budgets.monthlyCalls).map(provider => ({
+    provider,
+    month: totalsMonth,
+    calls: monthTotals.get(provider) ?? 0,
+    budget: getMonthlyBudget(provider),
+    degraded: isProviderDegraded(provider),
+  }));
+}
@@ -1,18 +1,26 @@
 /**
- * Simple in-memory rate limiter using sliding window
+ * Rate limiter backed by the configured cache store (shared between instances
+ * when appConfig.cache.store is 'postgres')
+ * Approximates a sliding window by weighting the previous fixed window's count
+ * by how much of it still overlaps the last windowMs
  */
 
+import { getCacheStore } from './cacheStore';
+
 interface RateLimitConfig {
+  name: string;        // Key prefix, unique per limiter
   windowMs: number;  // Time window in milliseconds
   maxRequests: number; // Maximum requests per window
 }
 
-interface RateLimitEntry {
-  requests: number[];  // Array of timestamps
+export interface RateLimitResult {
+  allowed: boolean;
+  count: number;
+  remaining: number;
+  resetMs: number; // Until the next request would be allowed
 }
 
 class RateLimiter {
-  private cache = new Map<string, RateLimitEntry>();
   private config: RateLimitConfig;
 
   constructor(config: RateLimitConfig) {
@@ -20,96 +28,87 @@ class RateLimiter {
   }
 
   /**
-   * Check if a request should be allowed
+   * Check whether a request is allowed, counting it only if it is
    * @param key Identifier (e.g., IP address or endpoint)
-   * @returns true if allowed, false if rate limited
-   */
-  check(key: string): boolean {
-    const now = Date.now();
-    const windowStart = now - this.config.windowMs;
-
-    // Get or create entry
-    let entry = this.cache.get(key);
-    if (!entry) {
-      entry = { requests: [] };
-      this.cache.set(key, entry);
-    }
-
-    // Remove old requests outside the window
-    entry.requests = entry.requests.filter(timestamp => timestamp > windowStart);
-
-    // Check if limit exceeded
-    if (entry.requests.length >= this.config.maxRequests) {
-      return false;
-    }
-
-    // Record this request
-    entry.requests.push(now);
-    return true;
-  }
-
-  /**
-   * Get current request count and remaining requests
    */
-  getStatus(key: string): { count: number; remaining: number; resetMs: number } {
+  async check(key: string): Promise<RateLimitResult> {
+    const { name, windowMs, maxRequests } = this.config;
+    const store = getCacheStore();
     const now = Date.now();
-    const windowStart = now - this.config.windowMs;
-
-    const entry = this.cache.get(key);
-    if (!entry) {
+    const bucket = Math.floor(now / windowMs);
+    const elapsed = now - bucket * windowMs;
+    const bucketKey = (b: number) => `ratelimit:${name}:${key}:${b}`;
+
+    const [previous, current] = await Promise.all([
+      store.get<number>(bucketKey(bucket - 1)),
+      store.get<number>(bucketKey(bucket)),
+    ]);
+    const previousWeight = (previous ?? 0) * (1 - elapsed / windowMs);
+    const count = previousWeight + (current ?? 0);
+
+    if (count >= maxRequests) {
       return {
-        count: 0,
-        remaining: this.config.maxRequests,
-        resetMs: this.config.windowMs,
+        allowed: false,
+        count: Math.ceil(count),
+        remaining: 0,
+        resetMs: this.retryAfterMs(previous ?? 0, current ?? 0, elapsed),
       };
     }
 
-    // Filter to current window
-    const activeRequests = entry.requests.filter(timestamp => timestamp > windowStart);
-    const oldest = activeRequests[0] || now;
-    const resetMs = Math.max(0, this.config.windowMs - (now - oldest));
+    // Buckets are kept for two windows so they can be weighted as the previous one
+    const counted = await store.increment(bucketKey(bucket), windowMs * 2);
+    const total = previousWeight + counted.count;
 
     return {
-      count: activeRequests.length,
-      remaining: Math.max(0, this.config.maxRequests - activeRequests.length),
-      resetMs,
+      allowed: true,
+      count: Math.ceil(total),
+      remaining: Math.max(0, Math.floor(maxRequests - total)),
+      resetMs: 0,
     };
   }
 
-  /**
-   * Periodic cleanup of expired entries
-   */
-  cleanup() {
-    const now = Date.now();
-    const windowStart = now - this.config.windowMs;
-
-    for (const [key, entry] of this.cache.entries()) {
-      entry.requests = entry.requests.filter(timestamp => timestamp > windowStart);
-      
-      // Remove completely empty entries
-      if (entry.requests.length === 0) {
-        this.cache.delete(key);
-      }
-    }
+  // Time until the weighted count drops below the limit (the end of this bucket when it alone is full)
+  private retryAfterMs(previous: number, current: number, elapsed: number): number {
+    const { windowMs, maxRequests } = this.config;
+    const untilBucketEnds = windowMs - elapsed;
+    if (current >= maxRequests || previous === 0) return untilBucketEnds;
+
+    const wait = windowMs * (1 - (maxRequests - current) / previous) - elapsed;
+    return Math.min(untilBucketEnds, Math.max(1, Math.ceil(wait)));
   }
 }
 
 // Rate limiter instances
 export const randomLimiter = new RateLimiter({
+  name: 'random',
   windowMs: 60000, // 1 minute
   maxRequests: 6,  // 6 requests per minute
 });
 
 export const resolveLimiter = new RateLimiter({
+  name: 'resolve',
   windowMs: 60000, // 1 minute
   maxRequests: 30, // 30 requests per minute
 });
 
-// Cleanup expired entries every 5 minutes
-setInterval(() => {
-  randomLimiter.cleanup();
-  resolveLimiter.cleanup();
-}, 5 * 60 * 1000);
+export const trackBatchLimiter = new RateLimiter({
+  name: 'track-batch',
+  windowMs: 60000, // 1 minute
+  maxRequests: 10, // 10 requests per minute
+});
+
+// Guest notification sign-ups, checked per client and per guest token
+export const subscribeLimiter = new RateLimiter({
+  name: 'subscribe',
+  windowMs: 60 * 60 * 1000, // 1 hour
+  maxRequests: 10,          // 10 requests per hour
+});
+
+export const subscribeTokenLimiter = new RateLimiter({
+  name: 'subscribe-token',
+  windowMs: 60 * 60 * 1000, // 1 hour
+  maxRequests: 20,          // 20 requests per hour
+});
 
 /**
  * Get client identifier from request
@@ -1,14 +1,23 @@
 /**
  * Flight status adapter with provider cascade and caching
- * Providers: FlightAware (primary) → AviationStack (fallback) → airport-data.com
+ * Providers are registered in lib/providers/registry.ts; cascade order comes from appConfig.providers
  */
 
-import { icaoToNNumber } from './nnumber-converter';
+import { icaoToNNumber, nNumberToIcao } from './nnumber-converter';
+import { ProviderError, type FlightDataProvider } from './providers/types';
+import { getProviders, isCircuitOpen, markProviderFailure, markProviderSuccess, recordProviderCall } from './providers/registry';
+import { withRetry } from './providers/retry';
+import { getCacheStore } from './cacheStore';
+import { withDerivedRates } from './geo';
+import { isDegraded, isProviderDegraded, refreshUsageTotals } from './providers/usage';
 
 // Types
 export interface FlightStatusParams {
   hex?: string;
   tail?: string;
+  exclude?: string[]; // Provider names to skip (e.g. over quota for background polling)
+  fresh?: boolean;    // Wait for an upstream fetch instead of serving a stale cached status
+  parked?: boolean;   // Background poll of a parked aircraft: providers only check whether it has departed
 }
 
 export interface Point {
@@ -17,6 +26,9 @@ export interface Point {
   ts?: number;
   alt_ft?: number;
   hdg?: number;
+  gs_kt?: number;  // Ground speed (knots)
+  vr_fpm?: number; // Vertical rate (feet per minute, negative when descending)
+  source?: 'gpx' | 'igc' | 'foreflight'; // Set on stored points imported from an uploaded track log
 }
 
 export interface AirportInfo {
@@ -27,6 +39,8 @@ export interface AirportInfo {
   country_code: string;
   lat?: number;
   lon?: number;
+  elevation_ft?: number;
+  timezone?: string; // IANA zone, from the local airport database
 }
 
 export interface Waypoint {
@@ -46,319 +60,103 @@ export interface FlightStatus {
   firstSeen: number | null;
   lastSeen: number | null;
   waypoints: Waypoint[] | null;
+  stale?: boolean; // Served from cache past its TTL while a refresh runs in the background
+  age?: number;    // Seconds since the providers were asked
 }
 
-// In-memory cache with 15-second TTL
+// Cached lookups are fresh for 15 seconds. After that they are served stale while a
+// background refresh runs, and kept for an hour for degraded mode (see providers/usage.ts)
 interface CacheEntry {
   data: FlightStatus;
+  fetchedAt: number;
   expiresAt: number;
 }
 
-const cache = new Map<string, CacheEntry>();
 const CACHE_TTL_MS = 15000; // 15 seconds
+const CACHE_RETENTION_MS = 60 * 60 * 1000;
 
-function getCacheKey(params: FlightStatusParams): string {
-  if (params.hex) return `hex:${params.hex}`;
-  if (params.tail) return `tail:${params.tail}`;
+// Upstream fetches in progress, so concurrent misses for a key share one cascade
+const inFlight = new Map<string, Promise<FlightStatus>>();
+
+// Built from the normalised identifiers, so "A1B2C3" and "a1b2c3" share an entry
+function getCacheKey(hex: string | undefined, tail: string | undefined): string {
+  if (hex) return `status:hex:${hex}`;
+  if (tail) return `status:tail:${tail}`;
   return "";
 }
 
-function getFromCache(key: string): FlightStatus | null {
-  const entry = cache.get(key);
-  if (!entry) return null;
-  
-  if (Date.now() > entry.expiresAt) {
-    cache.delete(key);
-    return null;
-  }
-  
-  return entry.data;
+// Lookups that skip providers or track calls get different results, so they don't share a fetch with full ones
+function getInFlightKey(cacheKey: string, params: FlightStatusParams): string {
+  const key = params.exclude?.length ? `${cacheKey}:exclude:${[...params.exclude].sort().join(',')}` : cacheKey;
+  return params.parked ? `${key}:parked` : key;
 }
 
-function setInCache(key: string, data: FlightStatus): void {
-  cache.set(key, {
-    data,
-    expiresAt: Date.now() + CACHE_TTL_MS,
-  });
+async function setInCache(key: string, data: FlightStatus): Promise<void> {
+  const now = Date.now();
+  const entry: CacheEntry = { data, fetchedAt: now, expiresAt: now + CACHE_TTL_MS };
+  await getCacheStore().set(key, entry, CACHE_RETENTION_MS);
 }
 
-
-// Provider error types
-class ProviderError extends Error {
-  constructor(
-    message: string,
-    public provider: string,
-    public statusCode?: number,
-    public retryable: boolean = false
-  ) {
-    super(message);
-    this.name = "ProviderError";
-  }
+function fromCache(entry: CacheEntry, stale: boolean): FlightStatus {
+  return {
+    ...entry.data,
+    stale,
+    age: Math.max(0, Math.round((Date.now() - entry.fetchedAt) / 1000)),
+  };
 }
 
-// Utility: Clean city names
-function cleanCityName(city: string | undefined): string | undefined {
-  if (!city) return undefined;
-  const withoutTimezone = city.includes('/') ? city.split('/').pop() || city : city;
-  return withoutTimezone.replace(/_/g, ' ');
+// Whether a provider can fill in anything the result is still missing
+function providerCanContribute(provider: FlightDataProvider, result: FlightStatus): boolean {
+  const caps = provider.capabilities;
+  if (caps.includes('track') && result.points.length === 0) return true;
+  if (caps.includes('metadata') && (!result.originAirport || !result.destinationAirport)) return true;
+  if (caps.includes('route') && !result.waypoints) return true;
+  return false;
 }
 
-// FlightAware provider - fetches metadata, track points, and waypoints
-async function fetchFromFlightAware(tail: string): Promise<Partial<FlightStatus> | null> {
-  const apiKey = process.env.FLIGHTAWARE_API_KEY;
-  if (!apiKey) return null;
-  
-  try {
-    const url = `https://aeroapi.flightaware.com/aeroapi/flights/${encodeURIComponent(tail)}`;
-    const response = await fetch(url, {
-      headers: { "x-apikey": apiKey },
-      cache: "no-store",
-    });
-    
-    if (response.status === 401 || response.status === 403) {
-      throw new ProviderError("Unauthorized", "flightaware", response.status, false);
-    }
-    
-    if (response.status === 429) {
-      throw new ProviderError("Rate limited", "flightaware", 429, true);
-    }
-    
-    if (response.status >= 500) {
-      throw new ProviderError("Server error", "flightaware", response.status, true);
-    }
-    
-    if (!response.ok) {
-      return null;
-    }
-    
-    const data: any = await response.json();
-    
-    if (!data.flights || data.flights.length === 0) {
-      console.log('[FlightAware] No flights array or empty flights array');
-      return null;
-    }
-    
-    // Find the active flight (En Route or recently completed)
-    // Priority: En Route > Scheduled (with actual_off) > most recent
-    const activeFlight = data.flights.find((f: any) => 
-      f.status && (
-        f.status.includes('En Route') || 
-        f.status.includes('Enroute')
-      )
-    ) || data.flights.find((f: any) => 
-      f.actual_off && !f.actual_on  // Departed but not arrived
-    ) || data.flights[0];  // Fallback to first flight
-    
-    const flight = activeFlight;
-    console.log(`[FlightAware] Selected flight: ${flight.ident} (${flight.fa_flight_id}) - Status: ${flight.status}`);
-    
-    const result: Partial<FlightStatus> = {};
-    
-    if (flight.origin) {
-      result.originAirport = flight.origin.code_icao || flight.origin.code_iata || flight.origin.code;
-      result.originInfo = {
-        icao: result.originAirport,
-        name: flight.origin.name,
-        city: cleanCityName(flight.origin.city),
-        country: "Unknown",
-        country_code: "XX",
-        lat: undefined,
-        lon: undefined,
-      };
-    }
-    
-    if (flight.destination) {
-      result.destinationAirport = flight.destination.code_icao || flight.destination.code_iata || flight.destination.code;
-      result.destinationInfo = {
-        icao: result.destinationAirport,
-        name: flight.destination.name,
-        city: cleanCityName(flight.destination.city),
-        country: "Unknown",
-        country_code: "XX",
-        lat: undefined,
-        lon: undefined,
-      };
-    }
-    
-    // Prioritize actual times over scheduled times
-    // For departure: actual_off > actual_out > scheduled_out
-    const departureTime = flight.actual_off || flight.actual_out || flight.scheduled_out;
-    if (departureTime) {
-      result.firstSeen = new Date(departureTime).getTime() / 1000;
-      console.log(`[FlightAware] Departure time: ${departureTime} (${flight.actual_off ? 'actual_off' : flight.actual_out ? 'actual_out' : 'scheduled_out'})`);
-    } else {
-      console.log('[FlightAware] No departure time available');
-    }
-    
-    // For arrival: actual_in > estimated_in > estimated_out > scheduled_in
-    const arrivalTime = flight.actual_in || flight.estimated_in || flight.estimated_out || flight.scheduled_in;
-    if (arrivalTime) {
-      result.lastSeen = new Date(arrivalTime).getTime() / 1000;
-      console.log(`[FlightAware] Arrival time: ${arrivalTime} (${flight.actual_in ? 'actual_in' : flight.estimated_in ? 'estimated_in' : flight.estimated_out ? 'estimated_out' : 'scheduled_in'})`);
-    } else {
-      console.log('[FlightAware] No arrival time available - flight may be en route without ETA');
-    }
-    
-    // Fetch track data and waypoints if available
-    if (flight.fa_flight_id && apiKey) {
-      // Fetch track points
-      try {
-        const trackUrl = `https://aeroapi.flightaware.com/aeroapi/flights/${encodeURIComponent(flight.fa_flight_id)}/track`;
-        const trackResponse = await fetch(trackUrl, {
-          headers: { "x-apikey": apiKey },
-          cache: "no-store",
-        });
-        
-        if (trackResponse.ok) {
-          const trackData: any = await trackResponse.json();
-          if (trackData.positions && Array.isArray(trackData.positions)) {
-            result.points = trackData.positions
-              .filter((pos: any) => 
-                Number.isFinite(pos.latitude) && 
-                Number.isFinite(pos.longitude)
-              )
-              .map((pos: any) => ({
-                lat: pos.latitude,
-                lon: pos.longitude,
-                ts: pos.timestamp ? Math.floor(new Date(pos.timestamp).getTime() / 1000) : undefined,
-                alt_ft: typeof pos.altitude === "number" ? Math.round(pos.altitude) : undefined,
-                hdg: typeof pos.heading === "number" ? Math.round(pos.heading) : undefined,
-              }));
-          }
-        }
-      } catch (e) {
-        // Track data is optional for now, don't fail the whole request
-        console.warn('[FlightAware] Track fetch failed:', e);
-      }
-      
-      // Fetch waypoints
-      try {
-        const routeUrl = `https://aeroapi.flightaware.com/aeroapi/flights/${encodeURIComponent(flight.fa_flight_id)}/route`;
-        console.log('[FlightAware] Fetching route for', flight.fa_flight_id);
-        const routeResponse = await fetch(routeUrl, {
-          headers: { "x-apikey": apiKey },
-          cache: "no-store",
-        });
-        
-        console.log('[FlightAware] Route response status:', routeResponse.status);
-        
-        if (routeResponse.ok) {
-          const routeData: any = await routeResponse.json();
-          console.log('[FlightAware] Route data:', JSON.stringify(routeData, null, 2));
-          // FlightAware route endpoint returns "fixes" not "waypoints"
-          if (routeData.fixes && Array.isArray(routeData.fixes)) {
-            result.waypoints = routeData.fixes
-              .filter((fix: any) => 
-                Number.isFinite(fix.latitude) && 
-                Number.isFinite(fix.longitude)
-              )
-              .map((fix: any) => ({
-                name: fix.name || 'WAYPOINT',
-                lat: fix.latitude,
-                lon: fix.longitude,
-              }));
-            console.log('[FlightAware] Extracted waypoints from fixes:', result.waypoints.length);
-          } else {
-            console.log('[FlightAware] No fixes in route data');
-          }
-        }
-      } catch (e) {
-        // Waypoints are optional, don't fail the whole request
-        console.warn('[FlightAware] Route fetch failed:', e);
-      }
-    }
-    
-    return result;
-  } catch (error) {
-    if (error instanceof ProviderError) {
-      throw error;
-    }
-    throw new ProviderError(
-      error instanceof Error ? error.message : String(error),
-      "flightaware",
-      undefined,
-      true
-    );
+// Merge provider data into the result without overwriting what earlier providers found
+function mergeProviderData(result: FlightStatus, data: Partial<FlightStatus>): void {
+  if (result.points.length === 0 && data.points?.length) {
+    result.points = data.points;
   }
+  result.originAirport = result.originAirport || data.originAirport || null;
+  result.destinationAirport = result.destinationAirport || data.destinationAirport || null;
+  result.originInfo = result.originInfo || data.originInfo || null;
+  result.destinationInfo = result.destinationInfo || data.destinationInfo || null;
+  result.firstSeen = result.firstSeen ?? data.firstSeen ?? null;
+  result.lastSeen = result.lastSeen ?? data.lastSeen ?? null;
+  result.waypoints = result.waypoints || data.waypoints || null;
 }
 
+// FlightAware gives names and cities but no coordinates or country
+function needsAirportDetails(info: AirportInfo | null): boolean {
+  return !info?.lat || !info?.lon || info.country_code === 'XX';
+}
 
-// AviationStack provider
-async function fetchFromAviationStack(tail: string): Promise<Partial<FlightStatus> | null> {
-  const apiKey = process.env.AVIATIONSTACK_API_KEY;
-  if (!apiKey) return null;
-  
-  try {
-    const url = `http://api.aviationstack.com/v1/flights?access_key=${apiKey}&flight_iata=${tail}&limit=1`;
-    const response = await fetch(url);
-    
-    if (response.status === 401 || response.status === 403) {
-      throw new ProviderError("Unauthorized", "aviationstack", response.status, false);
-    }
-    
-    if (response.status === 429) {
-      throw new ProviderError("Rate limited", "aviationstack", 429, true);
-    }
-    
-    if (response.status >= 500) {
-      throw new ProviderError("Server error", "aviationstack", response.status, true);
-    }
-    
-    if (!response.ok) {
-      return null;
-    }
-    
-    const data: any = await response.json();
-    
-    if (!data.data || data.data.length === 0) {
-      return null;
-    }
+/**
+ * Look up airport details from providers with the airport capability, in priority order
+ */
+export async function lookupAirport(code: string): Promise<AirportInfo | null> {
+  for (const provider of getProviders('airport')) {
+    if (isCircuitOpen(provider)) continue;
     
-    const flight = data.data[0];
-    return {
-      originAirport: flight.departure?.icao || flight.departure?.iata || null,
-      destinationAirport: flight.arrival?.icao || flight.arrival?.iata || null,
-    };
-  } catch (error) {
-    if (error instanceof ProviderError) {
-      throw error;
+    try {
+      const info = await withRetry(provider, async () => provider.fetchAirport?.(code));
+      markProviderSuccess(provider);
+      if (info) return info;
+    } catch (error) {
+      markProviderFailure(provider, error);
+      console.warn(`[${provider.label}] Airport lookup failed for ${code}:`, error);
     }
-    throw new ProviderError(
-      error instanceof Error ? error.message : String(error),
-      "aviationstack",
-      undefined,
-      true
-    );
-  }
-}
-
-// Airport data provider
-async function fetchAirportInfo(icao: string): Promise<AirportInfo | null> {
-  try {
-    const r = await fetch(
-      `https://airport-data.com/api/ap_info.json?icao=${icao}`,
-      { cache: "force-cache", next: { revalidate: 86400 } }
-    );
-    if (!r.ok) return null;
-    const data: any = await r.json();
-    return {
-      icao: data.icao || icao,
-      name: data.name || icao,
-      city: data.location || undefined,
-      country: data.country || "Unknown",
-      country_code: data.country_code || "XX",
-      lat: data.latitude ? parseFloat(data.latitude) : undefined,
-      lon: data.longitude ? parseFloat(data.longitude) : undefined,
-    };
-  } catch {
-    return null;
   }
+  return null;
 }
 
 /**
  * Get flight status with provider cascade and caching
- * Uses FlightAware as primary data source
+ * Providers are tried in registry priority order
  * Validates US-only aircraft (hex must start with 'a')
+ * Expired cache entries are returned right away (stale: true) and refreshed in the background
  */
 export async function getFlightStatus(params: FlightStatusParams): Promise<FlightStatus> {
   // Prefer hex if both provided
@@ -370,12 +168,59 @@ export async function getFlightStatus(params: FlightStatusParams): Promise<Fligh
   }
   
   // Check cache first
-  const cacheKey = getCacheKey(params);
-  const cached = getFromCache(cacheKey);
-  if (cached) {
-    return cached;
+  await refreshUsageTotals();
+  const cacheKey = getCacheKey(hex, tail);
+  const cached = await getCacheStore().get<CacheEntry>(cacheKey);
+  if (cached && Date.now() <= cached.expiresAt) {
+    return fromCache(cached, false);
   }
   
+  if (cached && !params.fresh) {
+    // In degraded mode stale entries are served without spending budget on a refresh
+    if (!isDegraded()) {
+      refreshFlightStatus(cacheKey, params, hex, tail).catch((err) => {
+        console.log(`[cache] Background refresh failed for ${cacheKey}:`, err instanceof Error ? err.message : err);
+      });
+    }
+    return fromCache(cached, true);
+  }
+  
+  return refreshFlightStatus(cacheKey, params, hex, tail);
+}
+
+// Ask the providers and cache the result; concurrent calls for a key share one fetch
+function refreshFlightStatus(
+  cacheKey: string,
+  params: FlightStatusParams,
+  hex: string | undefined,
+  tail: string | undefined
+): Promise<FlightStatus> {
+  const flightKey = getInFlightKey(cacheKey, params);
+  const pending = inFlight.get(flightKey);
+  if (pending) return pending;
+  
+  const request = fetchFromProviders(params, hex, tail)
+    .then(async (result) => {
+      // A cache outage shouldn't fail the lookup
+      await setInCache(cacheKey, result).catch((err) => {
+        console.error('[cache] Failed to store flight status:', err);
+      });
+      return { ...result, stale: false, age: 0 };
+    })
+    .finally(() => {
+      inFlight.delete(flightKey);
+    });
+  
+  inFlight.set(flightKey, request);
+  return request;
+}
+
+// Run the provider cascade for one aircraft
+async function fetchFromProviders(
+  params: FlightStatusParams,
+  hex: string | undefined,
+  tail: string | undefined
+): Promise<FlightStatus> {
   // Validate US-only (hex must start with 'a')
   if (hex && !hex.startsWith('a')) {
     throw new Error("US-registered aircraft only (hex must start with 'a')");
@@ -395,10 +240,10 @@ export async function getFlightStatus(params: FlightStatusParams): Promise<Fligh
     waypoints: null,
   };
   
-  let providerData: Partial<FlightStatus> | null = null;
   let rateLimitedProvider: string | null = null;
+  let fatalError: Error | null = null;
   
-  // Determine identifier to use for FlightAware lookup
+  // Determine identifier to use for tail-based providers
   // FlightAware requires tail numbers, so convert hex to tail if needed
   let identifier = tail;
   if (!identifier && hex) {
@@ -413,42 +258,51 @@ export async function getFlightStatus(params: FlightStatusParams): Promise<Fligh
     }
   }
   
-  if (identifier) {
-    // Try FlightAware (primary provider for everything)
+  // Hex-keyed providers (ADS-B) need the ICAO hex even for tail lookups
+  const queryHex = hex || nNumberToIcao(identifier)?.toLowerCase() || null;
+  
+  // Run the provider cascade; each provider only fills in what is still missing
+  for (const provider of getProviders()) {
+    if (!provider.fetchFlight || !providerCanContribute(provider, result) || params.exclude?.includes(provider.name)) {
+      continue;
+    }
+    
+    if (isProviderDegraded(provider.name)) {
+      console.log(`[${provider.label}] Skipped: monthly budget nearly used`);
+      continue;
+    }
+    
+    if (isCircuitOpen(provider)) {
+      // Surfaces as "try again later" if nothing else has data
+      console.log(`[${provider.label}] Skipped: circuit open`);
+      rateLimitedProvider = rateLimitedProvider || provider.name;
+      continue;
+    }
+    
     try {
-      console.log(`[FlightAware] Fetching data for: ${identifier}`);
-      providerData = await fetchFromFlightAware(identifier);
+      console.log(`[${provider.label}] Fetching data for: ${identifier || hex}`);
+      // Every attempt counts, retries included
+      const providerData = await withRetry(provider, () => {
+        recordProviderCall(provider);
+        return provider.fetchFlight!({ hex: queryHex, tail: identifier || null, parked: params.parked });
+      });
+      markProviderSuccess(provider);
       if (providerData) {
-        console.log(`[FlightAware] Success! Got ${providerData.points?.length || 0} points`);
-        // Merge all data from FlightAware including track points
-        Object.assign(result, providerData);
+        console.log(`[${provider.label}] Success! Got ${providerData.points?.length || 0} points`);
+        mergeProviderData(result, providerData);
       } else {
-        console.log(`[FlightAware] No data returned for ${identifier}`);
+        console.log(`[${provider.label}] No data returned for ${identifier || hex}`);
       }
     } catch (error) {
-      console.log(`[FlightAware] Error:`, error);
+      markProviderFailure(provider, error);
+      console.log(`[${provider.label}] Error:`, error);
       if (error instanceof ProviderError) {
         if (error.statusCode === 429) {
-          rateLimitedProvider = error.provider;
-        } else if (!error.retryable) {
-          throw new Error(`FlightAware error: ${error.message}`);
-        }
-      }
-    }
-    
-    // If FlightAware didn't provide origin/destination, try AviationStack as fallback
-    if ((!result.originAirport || !result.destinationAirport) && tail) {
-      try {
-        providerData = await fetchFromAviationStack(tail);
-        if (providerData) {
-          result.originAirport = result.originAirport || providerData.originAirport || null;
-          result.destinationAirport = result.destinationAirport || providerData.destinationAirport || null;
-        }
-      } catch (error) {
-        if (error instanceof ProviderError && error.statusCode === 429) {
           rateLimitedProvider = rateLimitedProvider || error.provider;
+        } else if (!error.retryable) {
+          // Keep trying lower-priority providers; only surface this if nothing else works
+          fatalError = fatalError || new Error(`${provider.label} error: ${error.message}`);
         }
-        // AviationStack is last fallback, don't throw
       }
     }
   }
@@ -458,36 +312,43 @@ export async function getFlightStatus(params: FlightStatusParams): Promise<Fligh
     throw new Error(`rate_limited:${rateLimitedProvider}`);
   }
   
+  // A non-retryable provider failure (e.g. bad API key) with nothing to show
+  if (fatalError && result.points.length === 0) {
+    throw fatalError;
+  }
+  
   // If we have no track data at all, aircraft not found
   if (result.points.length === 0) {
     throw new Error("Aircraft not found or no track data available");
   }
   
-  // Fetch airport coordinates if we have airport codes but missing lat/lon
-  if (result.originAirport && (!result.originInfo?.lat || !result.originInfo?.lon)) {
-    const airportData = await fetchAirportInfo(result.originAirport);
+  // Ground speed and vertical rate from successive points where providers had none
+  result.points = withDerivedRates(result.points);
+  
+  // Fill in airport coordinates and country if the flight providers didn't have them
+  if (result.originAirport && needsAirportDetails(result.originInfo)) {
+    const airportData = await lookupAirport(result.originAirport);
     if (airportData) {
       result.originInfo = {
         ...airportData,
         name: result.originInfo?.name || airportData.name,
         city: result.originInfo?.city || airportData.city,
+        timezone: result.originInfo?.timezone || airportData.timezone,
       };
     }
   }
   
-  if (result.destinationAirport && (!result.destinationInfo?.lat || !result.destinationInfo?.lon)) {
-    const airportData = await fetchAirportInfo(result.destinationAirport);
+  if (result.destinationAirport && needsAirportDetails(result.destinationInfo)) {
+    const airportData = await lookupAirport(result.destinationAirport);
     if (airportData) {
       result.destinationInfo = {
         ...airportData,
         name: result.destinationInfo?.name || airportData.name,
         city: result.destinationInfo?.city || airportData.city,
+        timezone: result.destinationInfo?.timezone || airportData.timezone,
       };
     }
   }
   
-  // Cache the result
-  setInCache(cacheKey, result);
-  
   return result;
 }
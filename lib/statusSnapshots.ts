@@ -0,0 +1,138 @@
+/**
+ * Stored flight status snapshots
+ * The latest status of every owner-registered aircraft lives in status_snapshots.
+ * The polling worker keeps them up to date on its own schedule, and requests for
+ * registered aircraft are served from the DB until the next poll is due.
+ */
+
+import { db } from '@/db';
+import { statusSnapshots, type StatusSnapshot } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { appConfig } from '@/config/app';
+import { getFlightStatus, type FlightStatus, type FlightStatusParams } from './statusAdapter';
+import { recordFlightStatus } from './flightRecorder';
+import { nNumberToIcao } from './nnumber-converter';
+import { isDegraded, refreshUsageTotals } from './providers/usage';
+
+// A latest point older than this no longer counts as flying (landed or out of coverage)
+const AIRBORNE_FRESHNESS_SECONDS = 10 * 60;
+
+/**
+ * Whether a status shows the aircraft currently flying
+ */
+export function isAirborne(status: FlightStatus, now: number = Date.now() / 1000): boolean {
+  const latest = status.points[status.points.length - 1];
+  if (!latest?.ts || now - latest.ts > AIRBORNE_FRESHNESS_SECONDS) return false;
+  return (latest.alt_ft ?? 1) > 0;
+}
+
+export async function getSnapshot(hex: string): Promise<StatusSnapshot | null> {
+  const [snapshot] = await db
+    .select()
+    .from(statusSnapshots)
+    .where(eq(statusSnapshots.icaoHex, hex.toUpperCase()))
+    .limit(1);
+
+  return snapshot || null;
+}
+
+/**
+ * Store the result of a lookup and schedule the next poll
+ * Fast while airborne, slow while parked, and backed off after provider errors
+ */
+export async function saveSnapshot(hex: string, result: { status?: FlightStatus; error?: string }): Promise<void> {
+  const { airborneIntervalMs, parkedIntervalMs, errorIntervalMs } = appConfig.worker;
+  const now = new Date();
+  const airborne = result.status ? isAirborne(result.status) : false;
+  const notFound = !!result.error && /not found|no track data/.test(result.error);
+
+  const intervalMs = result.status
+    ? (airborne ? airborneIntervalMs : parkedIntervalMs)
+    : (notFound ? parkedIntervalMs : errorIntervalMs);
+
+  const values = {
+    status: result.status ?? null,
+    lastError: result.error ?? null,
+    airborne,
+    fetchedAt: now,
+    nextPollAt: new Date(now.getTime() + intervalMs),
+  };
+
+  await db
+    .insert(statusSnapshots)
+    .values({ icaoHex: hex.toUpperCase(), ...values })
+    .onConflictDoUpdate({
+      target: statusSnapshots.icaoHex,
+      set: values,
+    });
+}
+
+/**
+ * Look up an aircraft with the providers, then record history and store the snapshot
+ * Used by the polling worker; errors are stored and rethrown. A parked aircraft only
+ * gets a departure check, and keeps its last known status while it hasn't moved.
+ */
+export async function pollStatus(hex: string, exclude?: string[]): Promise<FlightStatus> {
+  const previous = await getSnapshot(hex);
+  const parkedStatus = previous?.status && !previous.airborne ? previous.status as FlightStatus : null;
+
+  try {
+    const status = await getFlightStatus({ hex, exclude, fresh: true, parked: !!parkedStatus })
+      .catch((error) => {
+        if (parkedStatus && error instanceof Error && /not found|no track data/.test(error.message)) {
+          return parkedStatus;
+        }
+        throw error;
+      });
+    await recordFlightStatus(status);
+    await saveSnapshot(hex, { status });
+    return status;
+  } catch (error) {
+    await saveSnapshot(hex, { error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+/**
+ * Current status for an aircraft
+ * Registered aircraft are served from their snapshot until the next poll is due or
+ * a parked snapshot gets old (or for as long as provider budgets are in degraded mode); otherwise the
+ * providers are asked live (and a registered aircraft's snapshot refreshed)
+ */
+export async function getCurrentStatus(params: FlightStatusParams): Promise<FlightStatus> {
+  const hex = params.hex || (params.tail ? nNumberToIcao(params.tail)?.toLowerCase() : null) || null;
+  const snapshot = hex ? await getSnapshot(hex) : null;
+  await refreshUsageTotals();
+
+  // Parked aircraft are polled rarely, so a viewer gets a refresh once the snapshot is a little old
+  const parkedTooOld = !!snapshot && !snapshot.airborne &&
+    Date.now() - snapshot.fetchedAt.getTime() > appConfig.worker.parkedViewMaxAgeMs;
+  const due = !snapshot || parkedTooOld || snapshot.nextPollAt <= new Date();
+  if (snapshot && (!due || (isDegraded() && snapshot.status))) {
+    if (!snapshot.status) {
+      throw new Error(snapshot.lastError || 'Aircraft not found or no track data available');
+    }
+    return {
+      ...(snapshot.status as FlightStatus),
+      stale: due,
+      age: Math.max(0, Math.round((Date.now() - snapshot.fetchedAt.getTime()) / 1000)),
+    };
+  }
+
+  const status = await getFlightStatus(params);
+
+  // A stale cached status was recorded when it was fetched; its refresh is still running
+  if (status.stale) return status;
+
+  // Store history and the refreshed snapshot without delaying the response
+  recordFlightStatus(status).catch((err) => {
+    console.error('[positions] Failed to record flight status:', err);
+  });
+  if (snapshot && hex) {
+    saveSnapshot(hex, { status }).catch((err) => {
+      console.error('[snapshots] Failed to store snapshot:', err);
+    });
+  }
+
+  return status;
+}
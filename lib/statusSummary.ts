@@ -0,0 +1,115 @@
+/**
+ * Compact flight status
+ * The latest position and flight of an aircraft without its point history,
+ * for fleet views that show many aircraft at once.
+ */
+
+import { isAirborne } from './statusSnapshots';
+import { applyViewRestrictions, type TrackAccess } from './trackAccess';
+import { distanceNm } from './geo';
+import type { AirportInfo, FlightStatus, Point } from './statusAdapter';
+
+export interface StatusSummary {
+  hex: string;
+  tail: string | null;
+  airborne: boolean;
+  position: {
+    lat: number;
+    lon: number;
+    ts: number | null;
+    alt_ft: number | null;
+    hdg: number | null;
+    gs_kt: number | null;
+  } | null;
+  originAirport: string | null;
+  destinationAirport: string | null;
+  departureTime: number | null; // Unix seconds
+  arrivalTime: number | null;   // Unix seconds (actual, estimated or scheduled)
+  eta: number | null;           // Unix seconds, only while airborne
+  onGround: {                   // Where and since when the aircraft is parked (null while airborne or without data)
+    airport: string | null;
+    since: number | null;       // Unix seconds
+  } | null;
+  stale?: boolean;
+  age?: number;
+}
+
+// A parked aircraft this close to its origin or destination is at that airport
+const AT_AIRPORT_NM = 5;
+
+// En route: the latest known point is airborne and the arrival time is still ahead,
+// even when that point is older than the live freshness window (coverage gap)
+function isEnRoute(status: FlightStatus, now: number): boolean {
+  const latest = status.points[status.points.length - 1];
+  if (!latest || (latest.alt_ft ?? 1) <= 0) return false;
+  return status.lastSeen !== null && status.lastSeen > now &&
+    (status.firstSeen === null || status.firstSeen <= now);
+}
+
+function airportAt(status: FlightStatus, p: Point): string | null {
+  const candidates: [string | null, AirportInfo | null][] = [
+    [status.destinationAirport, status.destinationInfo],
+    [status.originAirport, status.originInfo],
+  ];
+  for (const [code, info] of candidates) {
+    if (code && info?.lat !== undefined && info.lon !== undefined &&
+        distanceNm(p.lat, p.lon, info.lat, info.lon) <= AT_AIRPORT_NM) {
+      return code;
+    }
+  }
+  return null;
+}
+
+// Where a parked aircraft is: the airport next to its latest position, else its origin
+// before departure or its destination once the arrival time has passed (never while the
+// ETA is still ahead); since the arrival time, or else the latest position
+function groundState(status: FlightStatus, latest: Point, now: number): StatusSummary['onGround'] {
+  const arrived = status.lastSeen !== null && status.lastSeen <= now;
+  const departed = status.firstSeen === null || status.firstSeen <= now;
+
+  const airport = airportAt(status, latest)
+    ?? (!departed ? status.originAirport : arrived ? status.destinationAirport : null);
+
+  return { airport, since: arrived ? status.lastSeen : latest.ts ?? null };
+}
+
+/**
+ * Summarize a flight status for a viewer
+ * Built only from what the viewer may see: positions and times past a guest or public
+ * delay are withheld, and airborne/ground state is judged as of the delayed time, so a
+ * delayed viewer sees the aircraft as it was then rather than as parked.
+ */
+export function summarizeStatus(
+  status: FlightStatus,
+  access: TrackAccess,
+  now: number = Date.now() / 1000
+): StatusSummary {
+  const restricted = applyViewRestrictions(status, access);
+  const asOf = now - access.delaySeconds;
+  const latest = restricted.points[restricted.points.length - 1];
+  const airborne = isAirborne(restricted, asOf) || isEnRoute(restricted, asOf);
+
+  return {
+    hex: restricted.hex,
+    tail: restricted.tail,
+    airborne,
+    position: latest
+      ? {
+          lat: latest.lat,
+          lon: latest.lon,
+          ts: latest.ts ?? null,
+          alt_ft: latest.alt_ft ?? null,
+          hdg: latest.hdg ?? null,
+          gs_kt: latest.gs_kt ?? null,
+        }
+      : null,
+    originAirport: restricted.originAirport,
+    destinationAirport: restricted.destinationAirport,
+    departureTime: restricted.firstSeen,
+    arrivalTime: restricted.lastSeen,
+    eta: airborne && restricted.lastSeen && restricted.lastSeen > asOf ? restricted.lastSeen : null,
+    onGround: !airborne && latest ? groundState(restricted, latest, asOf) : null,
+    stale: restricted.stale,
+    age: restricted.age,
+  };
+}
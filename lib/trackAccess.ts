@@ -0,0 +1,329 @@
+/**
+ * Tracking access control
+ * Owner-registered aircraft are tracked according to their privacy mode:
+ * private (owner only), guests (owner and covering guest tokens) or
+ * public_delayed (anyone, with delayed positions). Unregistered aircraft stay public.
+ */
+
+import { cookies } from 'next/headers';
+import { db } from '@/db';
+import { aircraft, guestTokens, sessions, type Aircraft, type Flight, type GuestToken } from '@/db/schema';
+import { and, eq, gt, inArray, or } from 'drizzle-orm';
+import { appConfig } from '@/config/app';
+import { getSession } from './session';
+import { findRegisteredAircraft } from './positionHistory';
+import { nNumberToIcao } from './nnumber-converter';
+import type { FlightStatus, Point } from './statusAdapter';
+
+// Guest credential: the SHA-256 hash of the token (same value /api/v/validate receives)
+export const GUEST_TOKEN_HEADER = 'x-guest-token';
+export const GUEST_COOKIE_NAME = 'trackmybird_guest';
+
+const DORMANT_AFTER_MS = 6 * 30 * 24 * 60 * 60 * 1000; // 6 months
+
+export type GuestTokenCheck =
+  | { token: GuestToken; error?: undefined; status?: undefined }
+  | { token?: undefined; error: string; status: number };
+
+/**
+ * Look up a guest token by hash and check it is still usable
+ * Dormant tokens (>6 months since last view or creation) are auto-revoked
+ */
+export async function checkGuestToken(tokenHash: string): Promise<GuestTokenCheck> {
+  const [token] = await db
+    .select()
+    .from(guestTokens)
+    .where(eq(guestTokens.tokenHash, tokenHash))
+    .limit(1);
+
+  if (!token) {
+    return { error: 'Invalid token', status: 404 };
+  }
+
+  return checkGuestTokenRow(token);
+}
+
+/**
+ * Check a loaded guest token is still usable (same rules as checkGuestToken)
+ * Dormant tokens are auto-revoked
+ */
+export async function checkGuestTokenRow(token: GuestToken): Promise<GuestTokenCheck> {
+  if (token.revoked) {
+    return { error: 'This access has been revoked', status: 403 };
+  }
+
+  const now = new Date();
+  if (token.expiresAt && token.expiresAt < now) {
+    return { error: 'This access has expired', status: 403 };
+  }
+
+  const dormantBefore = new Date(now.getTime() - DORMANT_AFTER_MS);
+  const isDormant =
+    (token.lastViewAt && token.lastViewAt < dormantBefore) ||
+    (!token.lastViewAt && token.createdAt < dormantBefore);
+
+  if (isDormant) {
+    await db
+      .update(guestTokens)
+      .set({ revoked: true })
+      .where(eq(guestTokens.id, token.id));
+
+    return { error: 'This access has been automatically revoked due to inactivity (>6 months)', status: 403 };
+  }
+
+  return { token };
+}
+
+export interface Viewer {
+  userId: number | null;
+  sessionId: number | null;
+  guestToken: GuestToken | null;
+}
+
+/**
+ * Identify who is asking: the signed-in user and/or a valid guest token
+ * The guest token hash is read from the x-guest-token header, then the guest cookie
+ */
+export async function getViewer(req: Request): Promise<Viewer> {
+  const session = await getSession();
+
+  let tokenHash = req.headers.get(GUEST_TOKEN_HEADER);
+  if (!tokenHash) {
+    const cookieStore = await cookies();
+    tokenHash = cookieStore.get(GUEST_COOKIE_NAME)?.value || null;
+  }
+
+  let guestToken: GuestToken | null = null;
+  if (tokenHash) {
+    const check = await checkGuestToken(tokenHash);
+    guestToken = check.token || null;
+  }
+
+  return { userId: session?.user.id ?? null, sessionId: session?.sessionId ?? null, guestToken };
+}
+
+/**
+ * Re-check a viewer's credentials for long-lived requests (live streams)
+ * Drops a session that has expired or been logged out, and a guest token that
+ * has since been revoked or expired
+ */
+export async function refreshViewer(viewer: Viewer): Promise<Viewer> {
+  let userId = viewer.userId;
+  if (viewer.sessionId !== null) {
+    const [session] = await db
+      .select({ id: sessions.id })
+      .from(sessions)
+      .where(and(eq(sessions.id, viewer.sessionId), gt(sessions.expiresAt, new Date())))
+      .limit(1);
+    if (!session) userId = null;
+  }
+
+  let guestToken: GuestToken | null = null;
+  if (viewer.guestToken) {
+    const check = await checkGuestToken(viewer.guestToken.tokenHash);
+    guestToken = check.token || null;
+  }
+
+  return { userId, sessionId: userId === null ? null : viewer.sessionId, guestToken };
+}
+
+/**
+ * Pick the registered aircraft row a viewer may see: their own row first,
+ * otherwise a row their guest token covers (unless the owner made it private)
+ */
+export function findViewableRow(viewer: Viewer, rows: Aircraft[]): Aircraft | null {
+  const owned = rows.find(r => viewer.userId !== null && r.ownerUserId === viewer.userId);
+  if (owned) return owned;
+
+  const guestIds = Array.isArray(viewer.guestToken?.aircraftIds) ? viewer.guestToken!.aircraftIds as number[] : [];
+  return rows.find(r => guestIds.includes(r.id) && r.privacyMode !== 'private') || null;
+}
+
+/**
+ * Every registered aircraft row a viewer may see (owned rows and rows their guest token covers)
+ */
+export async function getViewableAircraft(viewer: Viewer): Promise<Aircraft[]> {
+  const guestIds = Array.isArray(viewer.guestToken?.aircraftIds) ? viewer.guestToken!.aircraftIds as number[] : [];
+  if (viewer.userId === null && guestIds.length === 0) return [];
+
+  const conditions = [];
+  if (viewer.userId !== null) conditions.push(eq(aircraft.ownerUserId, viewer.userId));
+  if (guestIds.length > 0) conditions.push(inArray(aircraft.id, guestIds));
+
+  const rows = await db.select().from(aircraft).where(or(...conditions));
+  return rows.filter(r => findViewableRow(viewer, [r]) !== null);
+}
+
+export interface TrackAccess {
+  allowed: boolean;
+  role: 'public' | 'owner' | 'guest' | null;
+  row: Aircraft | null;  // The registered row access was granted through
+  viewer: Viewer;
+  delaySeconds: number;          // Points newer than this are withheld
+  coarseRadiusNm: number | null; // Positions are snapped to a grid this coarse
+}
+
+const DENIED = { allowed: false, role: null, row: null, delaySeconds: 0, coarseRadiusNm: null } as const;
+
+// Owners see everything; guests get whatever restrictions their token carries
+function grantFor(viewer: Viewer, row: Aircraft): TrackAccess {
+  if (row.ownerUserId === viewer.userId) {
+    return { allowed: true, role: 'owner', row, viewer, delaySeconds: 0, coarseRadiusNm: null };
+  }
+
+  return {
+    allowed: true,
+    role: 'guest',
+    row,
+    viewer,
+    delaySeconds: viewer.guestToken?.delaySeconds ?? 0,
+    coarseRadiusNm: viewer.guestToken?.coarseRadiusNm ?? null,
+  };
+}
+
+/**
+ * Decide whether a request may track an aircraft (by hex and/or tail)
+ */
+export async function getTrackAccess(
+  req: Request,
+  identifiers: { hex?: string | null; tail?: string | null }
+): Promise<TrackAccess> {
+  return resolveTrackAccess(await getViewer(req), identifiers);
+}
+
+/**
+ * Decide whether an identified viewer may track an aircraft (by hex and/or tail)
+ * For checking several aircraft in one request without re-reading the session
+ */
+export async function resolveTrackAccess(
+  viewer: Viewer,
+  { hex, tail }: { hex?: string | null; tail?: string | null }
+): Promise<TrackAccess> {
+  const queryHex = hex || (tail ? nNumberToIcao(tail)?.toLowerCase() : null) || '';
+
+  const rows = await findRegisteredAircraft(queryHex, tail || null);
+  if (rows.length === 0) {
+    return { allowed: true, role: 'public', row: null, viewer, delaySeconds: 0, coarseRadiusNm: null };
+  }
+
+  const row = findViewableRow(viewer, rows);
+  if (row) {
+    return grantFor(viewer, row);
+  }
+
+  // Everyone else only if every owner who registered the aircraft opted into delayed public tracking
+  if (rows.every(r => r.privacyMode === 'public_delayed')) {
+    return {
+      allowed: true,
+      role: 'public',
+      row: null,
+      viewer,
+      delaySeconds: appConfig.privacy.publicDelaySeconds,
+      coarseRadiusNm: null,
+    };
+  }
+
+  return { ...DENIED, viewer };
+}
+
+/**
+ * Decide whether a request may see data stored for a registered aircraft row
+ */
+export async function getAircraftRowAccess(req: Request, aircraftId: number): Promise<TrackAccess> {
+  const viewer = await getViewer(req);
+
+  const [row] = await db
+    .select()
+    .from(aircraft)
+    .where(eq(aircraft.id, aircraftId))
+    .limit(1);
+
+  return row ? getRowAccess(viewer, row) : { ...DENIED, viewer };
+}
+
+/**
+ * Decide whether an identified viewer may see a registered aircraft row
+ */
+export function getRowAccess(viewer: Viewer, row: Aircraft): TrackAccess {
+  return findViewableRow(viewer, [row]) ? grantFor(viewer, row) : { ...DENIED, viewer };
+}
+
+// Snap a position to the centre of a grid cell roughly radiusNm across
+function snapToGrid(p: Point, radiusNm: number): Point {
+  const latStep = radiusNm / 60;
+  const lat = (Math.floor(p.lat / latStep) + 0.5) * latStep;
+  const lonStep = latStep / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  const lon = (Math.floor(p.lon / lonStep) + 0.5) * lonStep;
+  return { ...p, lat, lon };
+}
+
+/**
+ * Trim track points to what this viewer may see
+ * Drops points newer than the delay and snaps the rest to the coarse grid
+ */
+export function restrictPoints(points: Point[], access: TrackAccess): Point[] {
+  let result = points;
+
+  if (access.delaySeconds > 0) {
+    const cutoff = Date.now() / 1000 - access.delaySeconds;
+    result = result.filter(p => p.ts !== undefined && p.ts <= cutoff);
+  }
+
+  if (access.coarseRadiusNm && access.coarseRadiusNm > 0) {
+    const radiusNm = access.coarseRadiusNm;
+    // Consecutive points in the same cell collapse to one so the path doesn't stutter
+    result = result
+      .map(p => snapToGrid(p, radiusNm))
+      .filter((p, i, arr) => i === 0 || p.lat !== arr[i - 1].lat || p.lon !== arr[i - 1].lon);
+  }
+
+  return result;
+}
+
+// A departure or arrival time that already happened but is newer than the delay is withheld;
+// schedules and estimates still ahead are kept
+function restrictTime(ts: number | null, access: TrackAccess): number | null {
+  if (ts === null || access.delaySeconds <= 0) return ts;
+  const now = Date.now() / 1000;
+  return ts <= now - access.delaySeconds || ts > now ? ts : null;
+}
+
+/**
+ * Trim a flight status to what this viewer may see
+ * Applied server-side to every response so restrictions can't be bypassed from the client
+ */
+export function applyViewRestrictions(status: FlightStatus, access: TrackAccess): FlightStatus {
+  if (access.delaySeconds <= 0 && !access.coarseRadiusNm) return status;
+
+  return {
+    ...status,
+    points: restrictPoints(status.points, access),
+    firstSeen: restrictTime(status.firstSeen, access),
+    lastSeen: restrictTime(status.lastSeen, access),
+  };
+}
+
+/**
+ * Trim a logbook leg to what this viewer may see
+ * A leg that took off within the delay is hidden, and one that landed within it is shown
+ * as still in progress. Coarse viewers don't get the airports, which would pin the
+ * aircraft down on the ground.
+ * @returns null when the leg is hidden
+ */
+export function restrictFlight(flight: Flight, access: TrackAccess): Flight | null {
+  let result = flight;
+
+  if (access.delaySeconds > 0) {
+    const cutoff = Date.now() - access.delaySeconds * 1000;
+    if (flight.offAt.getTime() > cutoff) return null;
+    if (!flight.onAt || flight.onAt.getTime() > cutoff) {
+      result = { ...result, arrivalAirport: null, onAt: null, airTimeSec: null, maxAltFt: null };
+    }
+  }
+
+  if (access.coarseRadiusNm && access.coarseRadiusNm > 0) {
+    result = { ...result, departureAirport: null, arrivalAirport: null };
+  }
+
+  return result;
+}
@@ -0,0 +1,168 @@
+/**
+ * Track export
+ * Renders a track as GPX, KML (Google Earth) or CSV, with origin, destination
+ * and route waypoints as named placemarks.
+ */
+
+import { formatCsv } from './csv';
+import type { FlightStatus, Point } from './statusAdapter';
+
+export const EXPORT_FORMATS = ['gpx', 'kml', 'csv'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const FEET_TO_METERS = 0.3048;
+const KNOTS_TO_MPS = 0.514444;
+
+export interface ExportPlacemark {
+  name: string;
+  kind: 'origin' | 'destination' | 'waypoint';
+  lat: number;
+  lon: number;
+}
+
+export interface ExportTrack {
+  name: string;
+  points: Point[];
+  placemarks: ExportPlacemark[];
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  csv: 'text/csv; charset=utf-8',
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isoTime(ts: number | undefined): string | null {
+  return ts ? new Date(ts * 1000).toISOString() : null;
+}
+
+/**
+ * Build an export from a flight status (live track)
+ */
+export function trackFromStatus(status: FlightStatus): ExportTrack {
+  const placemarks: ExportPlacemark[] = [];
+
+  const airport = (code: string | null, info: FlightStatus['originInfo'], kind: 'origin' | 'destination') => {
+    if (info && Number.isFinite(info.lat) && Number.isFinite(info.lon)) {
+      placemarks.push({ name: [code || info.icao, info.name].filter(Boolean).join(' - '), kind, lat: info.lat!, lon: info.lon! });
+    }
+  };
+  airport(status.originAirport, status.originInfo, 'origin');
+  airport(status.destinationAirport, status.destinationInfo, 'destination');
+
+  for (const wp of status.waypoints || []) {
+    placemarks.push({ name: wp.name, kind: 'waypoint', lat: wp.lat, lon: wp.lon });
+  }
+
+  const route = [status.originAirport, status.destinationAirport].filter(Boolean).join(' → ');
+  return {
+    name: [status.tail || status.hex, route].filter(Boolean).join(' '),
+    points: status.points,
+    placemarks,
+  };
+}
+
+function toGpx(track: ExportTrack): string {
+  const wpts = track.placemarks.map(p =>
+    `  <wpt lat="${p.lat}" lon="${p.lon}"><name>${escapeXml(p.name)}</name><type>${p.kind}</type></wpt>`
+  );
+
+  const trkpts = track.points.map(p => {
+    const parts = [`<trkpt lat="${p.lat}" lon="${p.lon}">`];
+    if (Number.isFinite(p.alt_ft)) parts.push(`<ele>${(p.alt_ft! * FEET_TO_METERS).toFixed(1)}</ele>`);
+    const time = isoTime(p.ts);
+    if (time) parts.push(`<time>${time}</time>`);
+    if (Number.isFinite(p.hdg) || Number.isFinite(p.gs_kt)) {
+      parts.push('<extensions><gpxtpx:TrackPointExtension>');
+      if (Number.isFinite(p.gs_kt)) parts.push(`<gpxtpx:speed>${(p.gs_kt! * KNOTS_TO_MPS).toFixed(1)}</gpxtpx:speed>`);
+      if (Number.isFinite(p.hdg)) parts.push(`<gpxtpx:course>${p.hdg}</gpxtpx:course>`);
+      parts.push('</gpxtpx:TrackPointExtension></extensions>');
+    }
+    parts.push('</trkpt>');
+    return `      ${parts.join('')}`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="TrackMyBird" xmlns="http://www.topografix.com/GPX/1/1"',
+    '     xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">',
+    `  <metadata><name>${escapeXml(track.name)}</name></metadata>`,
+    ...wpts,
+    '  <trk>',
+    `    <name>${escapeXml(track.name)}</name>`,
+    '    <trkseg>',
+    ...trkpts,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+function toKml(track: ExportTrack): string {
+  const placemarks = track.placemarks.map(p => [
+    '    <Placemark>',
+    `      <name>${escapeXml(p.name)}</name>`,
+    `      <styleUrl>#${p.kind}</styleUrl>`,
+    `      <Point><coordinates>${p.lon},${p.lat},0</coordinates></Point>`,
+    '    </Placemark>',
+  ].join('\n'));
+
+  // gx:Track keeps a timestamp per point, so Google Earth can animate the flight
+  const timed = track.points.filter(p => p.ts);
+  const whens = timed.map(p => `        <when>${isoTime(p.ts)}</when>`);
+  const coords = timed.map(p =>
+    `        <gx:coord>${p.lon} ${p.lat} ${((p.alt_ft ?? 0) * FEET_TO_METERS).toFixed(1)}</gx:coord>`
+  );
+  const angles = timed.map(p => `        <gx:angles>${p.hdg ?? 0} 0 0</gx:angles>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(track.name)}</name>`,
+    '    <Style id="track"><LineStyle><color>fff755a8</color><width>3</width></LineStyle></Style>',
+    '    <Style id="origin"><IconStyle><color>ff81b910</color></IconStyle></Style>',
+    '    <Style id="destination"><IconStyle><color>ff4444ef</color></IconStyle></Style>',
+    '    <Style id="waypoint"><IconStyle><scale>0.6</scale></IconStyle></Style>',
+    ...placemarks,
+    '    <Placemark>',
+    `      <name>${escapeXml(track.name)}</name>`,
+    '      <styleUrl>#track</styleUrl>',
+    '      <gx:Track>',
+    '        <altitudeMode>absolute</altitudeMode>',
+    ...whens,
+    ...coords,
+    ...angles,
+    '      </gx:Track>',
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+function toCsv(track: ExportTrack): string {
+  return formatCsv([
+    ['type', 'name', 'time_utc', 'lat', 'lon', 'alt_ft', 'gs_kt', 'vr_fpm', 'hdg'],
+    ...track.placemarks.map(p => [p.kind, p.name, null, p.lat, p.lon, null, null, null, null]),
+    ...track.points.map(p => ['track', null, isoTime(p.ts), p.lat, p.lon, p.alt_ft, p.gs_kt, p.vr_fpm, p.hdg]),
+  ]);
+}
+
+/**
+ * Render a track in the requested format
+ */
+export function renderTrack(track: ExportTrack, format: ExportFormat): { body: string; contentType: string } {
+  const body = format === 'gpx' ? toGpx(track) : format === 'kml' ? toKml(track) : toCsv(track);
+  return { body, contentType: CONTENT_TYPES[format] };
+}
@@ -0,0 +1,245 @@
+/**
+ * Track log import
+ * Parses GPX, IGC and ForeFlight CSV track logs into track points so owners can
+ * fill in flights the providers missed (e.g. VFR legs without flight following).
+ */
+
+import { appConfig } from '@/config/app';
+import { parseCsv } from './csv';
+import { withDerivedRates } from './geo';
+import type { Point } from './statusAdapter';
+
+export const IMPORT_FORMATS = ['gpx', 'igc', 'foreflight'] as const;
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+const METERS_TO_FEET = 3.28084;
+const MPS_TO_KNOTS = 1.943844;
+
+// Anything older is a missing or zeroed GPS date rather than a real flight
+const EARLIEST_TS = Date.UTC(2000, 0, 1) / 1000;
+
+export class TrackImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrackImportError';
+  }
+}
+
+export interface ImportedTrack {
+  format: ImportFormat;
+  points: Point[];    // Oldest first, one per timestamp
+  skipped: number;    // Points dropped for a missing/invalid position or timestamp
+  duplicates: number; // Valid points dropped because an earlier one had the same timestamp
+}
+
+function isValidPosition(lat: number, lon: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lon) &&
+    Math.abs(lat) <= 90 && Math.abs(lon) <= 180 && !(lat === 0 && lon === 0);
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Attribute values of an XML start tag, e.g. <trkpt lat="..." lon="...">
+function xmlAttribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+}
+
+// Text of the first child element with this local name (any namespace prefix)
+function xmlChild(body: string, name: string): string | undefined {
+  return body.match(new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([^<]*)</(?:[\\w-]+:)?${name}>`))?.[1]?.trim();
+}
+
+/**
+ * GPX 1.0 / 1.1 track points (<trkpt>), with speed and course from
+ * GPX 1.0 elements or the Garmin TrackPointExtension
+ */
+export function parseGpx(text: string): Point[] {
+  const points: Point[] = [];
+  const trkpt = /<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g;
+
+  for (const match of text.matchAll(trkpt)) {
+    const [, attributes, body = ''] = match;
+    const lat = parseFloat(xmlAttribute(attributes, 'lat') ?? '');
+    const lon = parseFloat(xmlAttribute(attributes, 'lon') ?? '');
+
+    const time = xmlChild(body, 'time');
+    const ts = time ? Date.parse(time) / 1000 : NaN;
+    const ele = optionalNumber(xmlChild(body, 'ele'));
+    const speed = optionalNumber(xmlChild(body, 'speed'));
+    const course = optionalNumber(xmlChild(body, 'course'));
+
+    points.push({
+      lat,
+      lon,
+      ts: Number.isFinite(ts) ? ts : undefined,
+      alt_ft: ele !== undefined ? Math.round(ele * METERS_TO_FEET) : undefined,
+      gs_kt: speed !== undefined ? Math.round(speed * MPS_TO_KNOTS) : undefined,
+      hdg: course !== undefined ? Math.round(course) : undefined,
+    });
+  }
+
+  return points;
+}
+
+// IGC coordinates: degrees followed by minutes x 1000 (DDMMmmm / DDDMMmmm)
+function igcDegrees(degrees: string, minutes: string, hemisphere: string): number {
+  const value = parseInt(degrees, 10) + parseInt(minutes, 10) / 1000 / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -value : value;
+}
+
+/**
+ * IGC flight recorder fixes (B records)
+ * Times are UTC on the HFDTE header date, rolling over at midnight
+ */
+export function parseIgc(text: string): Point[] {
+  const lines = text.split(/\r?\n/);
+
+  const date = lines
+    .map(line => line.match(/^HFDTE(?:DATE:)?(\d{2})(\d{2})(\d{2})/))
+    .find(Boolean);
+  if (!date) {
+    throw new TrackImportError('IGC file has no HFDTE date header');
+  }
+  const [, day, month, year] = date;
+  let dayStart = Date.UTC(2000 + parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10)) / 1000;
+
+  const fix = /^B(\d{2})(\d{2})(\d{2})(\d{2})(\d{5})([NS])(\d{3})(\d{5})([EW])([AV])([-\d]\d{4})([-\d]\d{4})/;
+  const points: Point[] = [];
+  let lastSecondOfDay = -1;
+
+  for (const line of lines) {
+    const m = line.match(fix);
+    if (!m) continue;
+
+    const [, hh, mm, ss, latDeg, latMin, latHem, lonDeg, lonMin, lonHem, validity, pressureAlt, gnssAlt] = m;
+    const secondOfDay = parseInt(hh, 10) * 3600 + parseInt(mm, 10) * 60 + parseInt(ss, 10);
+    if (secondOfDay < lastSecondOfDay) dayStart += 24 * 60 * 60;
+    lastSecondOfDay = secondOfDay;
+
+    // GNSS altitude (meters) is only meaningful on 'A' (3D) fixes; fall back to pressure altitude
+    const gnssMeters = parseInt(gnssAlt, 10);
+    const altMeters = validity === 'A' && gnssMeters !== 0 ? gnssMeters : parseInt(pressureAlt, 10);
+    points.push({
+      lat: igcDegrees(latDeg, latMin, latHem),
+      lon: igcDegrees(lonDeg, lonMin, lonHem),
+      ts: dayStart + secondOfDay,
+      alt_ft: Number.isFinite(altMeters) ? Math.round(altMeters * METERS_TO_FEET) : undefined,
+    });
+  }
+
+  return points;
+}
+
+// ForeFlight timestamps are Unix seconds (older exports: milliseconds) or ISO 8601
+function parseForeFlightTime(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const n = parseFloat(trimmed);
+    return n > 1e11 ? n / 1000 : n;
+  }
+  const parsed = Date.parse(trimmed);
+  return Number.isFinite(parsed) ? parsed / 1000 : undefined;
+}
+
+/**
+ * ForeFlight CSV track log
+ * A metadata block (pilot, tail number, ...) precedes the track table, whose
+ * header row starts with Timestamp,Latitude,Longitude; altitude is feet, speed knots
+ */
+export function parseForeFlightCsv(text: string): Point[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ''));
+  const headerIndex = rows.findIndex(row => {
+    const names = row.map(cell => cell.trim().toLowerCase());
+    return names.includes('timestamp') && names.includes('latitude') && names.includes('longitude');
+  });
+  if (headerIndex < 0) {
+    throw new TrackImportError('CSV file has no Timestamp, Latitude, Longitude header row');
+  }
+
+  const header = rows[headerIndex].map(cell => cell.trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  const [tsCol, latCol, lonCol, altCol, courseCol, speedCol] =
+    ['timestamp', 'latitude', 'longitude', 'altitude', 'course', 'speed'].map(column);
+
+  const points: Point[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    if (row.length < header.length || row.every(cell => cell.trim() === '')) continue;
+
+    const alt = altCol >= 0 ? optionalNumber(row[altCol]) : undefined;
+    const speed = speedCol >= 0 ? optionalNumber(row[speedCol]) : undefined;
+    const course = courseCol >= 0 ? optionalNumber(row[courseCol]) : undefined;
+
+    points.push({
+      lat: parseFloat(row[latCol]),
+      lon: parseFloat(row[lonCol]),
+      ts: parseForeFlightTime(row[tsCol]),
+      alt_ft: alt !== undefined ? Math.round(alt) : undefined,
+      gs_kt: speed !== undefined ? Math.round(speed) : undefined,
+      hdg: course !== undefined ? Math.round(course) : undefined,
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Work out a track log's format from its file name, falling back to its content
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'igc') return 'igc';
+  if (extension === 'csv') return 'foreflight';
+
+  const head = text.slice(0, 2048);
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  if (/^A\w{3}/.test(head) && /^HFDTE/m.test(head)) return 'igc';
+  if (/timestamp\s*,\s*latitude\s*,\s*longitude/i.test(text.slice(0, 8192))) return 'foreflight';
+  return null;
+}
+
+/**
+ * Parse and validate a track log
+ * Points without a valid position or timestamp are dropped (skipped); the rest are
+ * sorted and de-duplicated by timestamp (duplicates). Timestamps in the future reject the whole file,
+ * since they mean the log's clock or time zone is off.
+ */
+export function parseTrackLog(text: string, format: ImportFormat): ImportedTrack {
+  const { maxPoints, maxFutureSkewSeconds } = appConfig.trackImport;
+  const parsed = format === 'gpx' ? parseGpx(text) : format === 'igc' ? parseIgc(text) : parseForeFlightCsv(text);
+
+  const valid = parsed.filter(p => p.ts !== undefined && p.ts >= EARLIEST_TS && isValidPosition(p.lat, p.lon));
+  if (valid.length === 0) {
+    throw new TrackImportError(parsed.length === 0
+      ? 'No track points found'
+      : 'No track points with a valid position and timestamp');
+  }
+  if (valid.length > maxPoints) {
+    throw new TrackImportError(`Track log has more than ${maxPoints} points`);
+  }
+
+  let latest = -Infinity;
+  for (const p of valid) {
+    if (p.ts! > latest) latest = p.ts!;
+  }
+  if (latest > Date.now() / 1000 + maxFutureSkewSeconds) {
+    throw new TrackImportError(`Track log has timestamps in the future (${new Date(latest * 1000).toISOString()})`);
+  }
+
+  const points = valid
+    .map(p => ({ ...p, ts: Math.floor(p.ts!), source: format }))
+    .sort((a, b) => a.ts - b.ts)
+    .filter((p, i, arr) => i === 0 || p.ts !== arr[i - 1].ts);
+
+  return {
+    format,
+    points: withDerivedRates(points),
+    skipped: parsed.length - valid.length,
+    duplicates: valid.length - points.length,
+  };
+}
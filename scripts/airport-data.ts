@@ -0,0 +1,14 @@
+/**
+ * Airport datasets bundled in data/airports
+ * Shared by import-airports.ts (reads them) and update-airport-data.ts (refreshes them).
+ */
+
+import { join } from 'path';
+
+export const AIRPORT_DATA_DIR = join(__dirname, '..', 'data', 'airports');
+
+export const AIRPORT_DATA_FILES = {
+  airports: { file: 'airports.csv', url: 'https://davidmegginson.github.io/ourairports-data/airports.csv' },
+  runways: { file: 'runways.csv', url: 'https://davidmegginson.github.io/ourairports-data/runways.csv' },
+  timezones: { file: 'airports.dat', url: 'https://raw.githubusercontent.com/jpatokal/openflights/master/data/airports.dat' },
+} as const;
@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+/**
+ * Import airports and runways into the airports and runways tables
+ *
+ * Loads the OurAirports airports.csv and runways.csv (https://ourairports.com/data/)
+ * and upserts every row by its OurAirports identifier, so the script can be re-run
+ * to pick up updates. Time zones come from the OpenFlights airports.dat; airports
+ * missing there get the zone of the nearest airport that has one.
+ *
+ * Usage: npm run airports:import [-- data-dir]
+ * Reads the copies bundled in data/airports (or data-dir); nothing is downloaded.
+ * Refresh the bundle with npm run airports:update.
+ * Requires DATABASE_URL.
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { sql } from 'drizzle-orm';
+import { db } from '../db';
+import { airports, runways, type InsertAirport, type InsertRunway } from '../db/schema';
+import { parseCsv, parseCsvRecords } from '../lib/csv';
+import { AIRPORT_DATA_DIR, AIRPORT_DATA_FILES } from './airport-data';
+
+const BATCH_SIZE = 1000;
+
+// Nearest-airport time zone fallback: grid of 1° cells, searched up to this many cells out
+const TZ_SEARCH_CELLS = 2;
+
+function code(value: string | undefined, pattern: RegExp): string | null {
+  const normalized = (value || '').trim().toUpperCase();
+  return pattern.test(normalized) ? normalized : null;
+}
+
+function toAirport(record: Record<string, string>): InsertAirport | null {
+  const lat = parseFloat(record.latitude_deg);
+  const lon = parseFloat(record.longitude_deg);
+  const ident = code(record.ident, /^[A-Z0-9-]{1,16}$/);
+  if (!ident || !record.name || !Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+
+  const elevation = parseInt(record.elevation_ft, 10);
+  const gpsCode = code(record.gps_code, /^[A-Z0-9-]{1,16}$/);
+
+  return {
+    ident,
+    type: record.type || 'unknown',
+    name: record.name.trim(),
+    lat,
+    lon,
+    elevationFt: Number.isFinite(elevation) ? elevation : null,
+    isoCountry: code(record.iso_country, /^[A-Z]{2}$/),
+    isoRegion: record.iso_region?.trim().slice(0, 10) || null,
+    municipality: record.municipality?.trim() || null,
+    // Older dataset versions have no icao_code column; the GPS code is the ICAO code there
+    icaoCode: code(record.icao_code, /^[A-Z0-9]{4}$/) ?? code(record.gps_code, /^[A-Z]{4}$/),
+    iataCode: code(record.iata_code, /^[A-Z0-9]{3}$/),
+    gpsCode,
+    localCode: code(record.local_code, /^[A-Z0-9-]{1,16}$/),
+    updatedAt: new Date(),
+  };
+}
+
+async function loadFile(dir: string, dataset: keyof typeof AIRPORT_DATA_FILES): Promise<string> {
+  const path = join(dir, AIRPORT_DATA_FILES[dataset].file);
+  if (!existsSync(path)) {
+    throw new Error(`${path} is missing; run npm run airports:update to fetch the datasets`);
+  }
+
+  console.log(`📂 Reading ${path}`);
+  return readFile(path, 'utf8');
+}
+
+function toRunway(record: Record<string, string>, idents: Set<string>): InsertRunway | null {
+  const sourceId = parseInt(record.id, 10);
+  const airportIdent = (record.airport_ident || '').trim().toUpperCase();
+  if (!Number.isFinite(sourceId) || !idents.has(airportIdent)) return null;
+
+  const length = parseInt(record.length_ft, 10);
+  const width = parseInt(record.width_ft, 10);
+
+  return {
+    sourceId,
+    airportIdent,
+    leIdent: record.le_ident?.trim().slice(0, 8) || null,
+    heIdent: record.he_ident?.trim().slice(0, 8) || null,
+    lengthFt: Number.isFinite(length) ? length : null,
+    widthFt: Number.isFinite(width) ? width : null,
+    surface: record.surface?.trim().slice(0, 64) || null,
+    lighted: record.lighted === '1',
+    closed: record.closed === '1',
+  };
+}
+
+// OpenFlights airports.dat (no header): ..., ICAO (5), lat (6), lon (7), ..., tz database name (11)
+function parseTimezones(text: string) {
+  const byIcao = new Map<string, string>();
+  const grid = new Map<string, { lat: number; lon: number; tz: string }[]>();
+
+  for (const row of parseCsv(text)) {
+    const [icao, lat, lon, tz] = [row[5], parseFloat(row[6]), parseFloat(row[7]), row[11]];
+    if (!tz || tz === '\\N' || !Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+
+    if (icao && icao !== '\\N') byIcao.set(icao.toUpperCase(), tz);
+    const cell = `${Math.floor(lat)},${Math.floor(lon)}`;
+    grid.set(cell, [...(grid.get(cell) || []), { lat, lon, tz }]);
+  }
+
+  function nearest(lat: number, lon: number): string | null {
+    let best: { tz: string; d: number } | null = null;
+    for (let dLat = -TZ_SEARCH_CELLS; dLat <= TZ_SEARCH_CELLS; dLat++) {
+      for (let dLon = -TZ_SEARCH_CELLS; dLon <= TZ_SEARCH_CELLS; dLon++) {
+        for (const p of grid.get(`${Math.floor(lat) + dLat},${Math.floor(lon) + dLon}`) || []) {
+          const x = (p.lon - lon) * Math.cos((lat * Math.PI) / 180);
+          const d = x * x + (p.lat - lat) ** 2;
+          if (!best || d < best.d) best = { tz: p.tz, d };
+        }
+      }
+    }
+    return best?.tz || null;
+  }
+
+  return { byIcao, nearest };
+}
+
+async function importAirports(rows: InsertAirport[]) {
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    await db
+      .insert(airports)
+      .values(rows.slice(i, i + BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: airports.ident,
+        set: {
+          type: sql`excluded.type`,
+          name: sql`excluded.name`,
+          lat: sql`excluded.lat`,
+          lon: sql`excluded.lon`,
+          elevationFt: sql`excluded.elevation_ft`,
+          isoCountry: sql`excluded.iso_country`,
+          isoRegion: sql`excluded.iso_region`,
+          municipality: sql`excluded.municipality`,
+          icaoCode: sql`excluded.icao_code`,
+          iataCode: sql`excluded.iata_code`,
+          gpsCode: sql`excluded.gps_code`,
+          localCode: sql`excluded.local_code`,
+          timezone: sql`excluded.timezone`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+      });
+    console.log(`   airports ${Math.min(i + BATCH_SIZE, rows.length)}/${rows.length}`);
+  }
+}
+
+async function importRunways(rows: InsertRunway[]) {
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    await db
+      .insert(runways)
+      .values(rows.slice(i, i + BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: runways.sourceId,
+        set: {
+          airportIdent: sql`excluded.airport_ident`,
+          leIdent: sql`excluded.le_ident`,
+          heIdent: sql`excluded.he_ident`,
+          lengthFt: sql`excluded.length_ft`,
+          widthFt: sql`excluded.width_ft`,
+          surface: sql`excluded.surface`,
+          lighted: sql`excluded.lighted`,
+          closed: sql`excluded.closed`,
+        },
+      });
+    console.log(`   runways ${Math.min(i + BATCH_SIZE, rows.length)}/${rows.length}`);
+  }
+}
+
+async function main() {
+  const dir = process.argv[2] || AIRPORT_DATA_DIR;
+
+  const records = parseCsvRecords(await loadFile(dir, 'airports'));
+  const timezones = parseTimezones(await loadFile(dir, 'timezones'));
+
+  const airportRows = records.map(toAirport).filter((row): row is InsertAirport => row !== null);
+  for (const row of airportRows) {
+    row.timezone = (row.icaoCode && timezones.byIcao.get(row.icaoCode)) || timezones.nearest(row.lat, row.lon);
+  }
+  console.log(`✈️  ${airportRows.length} airports (${records.length - airportRows.length} rows skipped)`);
+  await importAirports(airportRows);
+
+  const idents = new Set(airportRows.map(a => a.ident));
+  const runwayRows = parseCsvRecords(await loadFile(dir, 'runways'))
+    .map(r => toRunway(r, idents))
+    .filter((row): row is InsertRunway => row !== null);
+  console.log(`🛬 ${runwayRows.length} runways`);
+  await importRunways(runwayRows);
+
+  console.log('✅ Airports imported');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Import failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+/**
+ * Refresh the airport datasets bundled in data/airports
+ *
+ * Downloads the current OurAirports airports.csv and runways.csv and the
+ * OpenFlights airports.dat. Commit the updated files, then load them with
+ * npm run airports:import.
+ *
+ * Usage: npm run airports:update
+ */
+
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { AIRPORT_DATA_DIR, AIRPORT_DATA_FILES } from './airport-data';
+
+async function main() {
+  await mkdir(AIRPORT_DATA_DIR, { recursive: true });
+
+  for (const { file, url } of Object.values(AIRPORT_DATA_FILES)) {
+    console.log(`🌐 Downloading ${url}`);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Download of ${file} failed: HTTP ${response.status}`);
+    }
+    await writeFile(join(AIRPORT_DATA_DIR, file), await response.text());
+  }
+
+  console.log(`✅ Airport data updated in ${AIRPORT_DATA_DIR}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Update failed:', error);
+    process.exit(1);
+  });
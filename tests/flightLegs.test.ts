@@ -0,0 +1,81 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { segmentLegs } from '@/lib/flightLegs';
+import { parseTrackLog } from '@/lib/trackImport';
+import type { Point } from '@/lib/statusAdapter';
+
+const T0 = 1710504000;
+
+// One point a minute from T0 + start minutes, at the given altitudes
+function track(start: number, altitudes: number[]): Point[] {
+  return altitudes.map((alt_ft, i) => ({ lat: 40 + i * 0.01, lon: -75, ts: T0 + (start + i) * 60, alt_ft }));
+}
+
+describe('segmentLegs', () => {
+  test('a takeoff and landing make one completed leg', () => {
+    const legs = segmentLegs(track(0, [0, 0, 500, 3000, 4500, 2000, 0, 0]), T0 + 3600);
+
+    assert.equal(legs.length, 1);
+    // Taxi points before the last ground point are dropped; the leg ends on the first ground point
+    assert.equal(legs[0].offAt, T0 + 60);
+    assert.equal(legs[0].onAt, T0 + 6 * 60);
+    assert.equal(legs[0].maxAltFt, 4500);
+    assert.equal(legs[0].points.length, 6);
+  });
+
+  test('a landing followed by another takeoff starts a new leg', () => {
+    const legs = segmentLegs([...track(0, [0, 1000, 2000, 0]), ...track(10, [0, 1500, 2500, 0])], T0 + 3600);
+
+    assert.equal(legs.length, 2);
+    assert.equal(legs[0].maxAltFt, 2000);
+    assert.equal(legs[1].offAt, T0 + 10 * 60);
+    assert.equal(legs[1].maxAltFt, 2500);
+  });
+
+  test('a gap longer than legGapSeconds splits airborne points into legs', () => {
+    const legs = segmentLegs([...track(0, [1000, 1200, 1400]), ...track(60, [3000, 3200, 3400])], T0 + 3 * 3600);
+
+    assert.equal(legs.length, 2);
+    assert.equal(legs[0].onAt, T0 + 2 * 60);
+    assert.equal(legs[1].offAt, T0 + 60 * 60);
+  });
+
+  test('a leg still receiving points stays in progress', () => {
+    const points = track(0, [0, 1000, 2000, 3000]);
+    const legs = segmentLegs(points, points[points.length - 1].ts! + 60);
+
+    assert.equal(legs.length, 1);
+    assert.equal(legs[0].onAt, null);
+  });
+
+  test('short runs and runs that never leave the ground are dropped', () => {
+    assert.deepEqual(segmentLegs(track(0, [1000, 0]), T0 + 3600), []);
+    assert.deepEqual(segmentLegs(track(0, [0, 0, 0, 0]), T0 + 3600), []);
+  });
+
+  test('unsorted input and points without a timestamp are handled', () => {
+    const points = track(0, [0, 1000, 2000, 0]);
+    const legs = segmentLegs([points[2], { lat: 40, lon: -75 }, points[0], points[3], points[1]], T0 + 3600);
+
+    assert.equal(legs.length, 1);
+    assert.deepEqual(legs[0].points, points);
+  });
+
+  test('imported logs with MSL altitudes land by ground speed', () => {
+    // A field at 1000 ft MSL: taxi, fly, a 10 minute stop (shorter than legGapSeconds), fly again
+    const fixes: { lat: number; ele: number }[] = [];
+    let lat = 40;
+    const hold = (n: number) => { for (let i = 0; i < n; i++) fixes.push({ lat, ele: 305 }); };
+    const fly = (n: number) => { for (let i = 0; i < n; i++) fixes.push({ lat: (lat += 0.02), ele: 900 }); };
+    hold(4); fly(10); hold(20); fly(10); hold(4);
+
+    const gpx = `<gpx>${fixes.map((f, i) =>
+      `<trkpt lat="${f.lat}" lon="-75"><ele>${f.ele}</ele><time>${new Date((T0 + i * 30) * 1000).toISOString()}</time></trkpt>`
+    ).join('')}</gpx>`;
+    const legs = segmentLegs(parseTrackLog(gpx, 'gpx').points, T0 + 3 * 3600);
+
+    assert.equal(legs.length, 2);
+    assert.equal(legs[0].onAt, T0 + 14 * 30);
+    assert.equal(legs[1].offAt, T0 + 33 * 30);
+  });
+});
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@/db';
+import { createFlightAwareProvider } from '@/lib/providers/flightaware';
+
+// Answer AeroAPI requests with the given flight; returns the requested paths
+function fakeAeroApi(flight: Record<string, unknown>): string[] {
+  const paths: string[] = [];
+
+  mock.method(globalThis, 'fetch', async (url: string) => {
+    const path = new URL(url).pathname.replace('/aeroapi', '');
+    paths.push(path);
+    const body = path.endsWith('/track')
+      ? { positions: [{ latitude: 40, longitude: -75, timestamp: '2024-03-15T12:00:00Z', altitude: 35 }] }
+      : path.endsWith('/route')
+        ? { fixes: [] }
+        : { flights: [{ ident: 'N12345', fa_flight_id: 'N12345-1', ...flight }] };
+    return new Response(JSON.stringify(body), { status: 200 });
+  });
+
+  return paths;
+}
+
+describe('FlightAware provider', () => {
+  const provider = createFlightAwareProvider(0);
+
+  beforeEach(() => {
+    process.env.FLIGHTAWARE_API_KEY = 'test';
+    // Usage ledger writes
+    mock.method(db, 'insert', () => ({
+      values: () => ({ onConflictDoUpdate: async () => undefined }),
+    }));
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    delete process.env.FLIGHTAWARE_API_KEY;
+  });
+
+  test('fetches the track and route of the selected flight', async () => {
+    const paths = fakeAeroApi({ status: 'Arrived', actual_off: '2024-03-15T11:00:00Z', actual_on: '2024-03-15T12:30:00Z' });
+    const result = await provider.fetchFlight!({ hex: 'a1b2c3', tail: 'N12345' });
+
+    assert.deepEqual(paths, ['/flights/N12345', '/flights/N12345-1/track', '/flights/N12345-1/route']);
+    assert.equal(result?.points?.[0].alt_ft, 3500);
+  });
+
+  test('only checks for a departure while parked', async () => {
+    const paths = fakeAeroApi({ status: 'Scheduled', scheduled_out: '2024-03-15T15:00:00Z' });
+    const result = await provider.fetchFlight!({ hex: 'a1b2c3', tail: 'N12345', parked: true });
+
+    assert.deepEqual(paths, ['/flights/N12345']);
+    assert.equal(result?.points, undefined);
+  });
+
+  test('fetches the track once a parked aircraft has departed', async () => {
+    const paths = fakeAeroApi({ status: 'En Route / On Time', actual_off: '2024-03-15T11:00:00Z' });
+    await provider.fetchFlight!({ hex: 'a1b2c3', tail: 'N12345', parked: true });
+
+    assert.equal(paths.length, 3);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@/db';
+import { savePositions } from '@/lib/positionHistory';
+import type { InsertPosition } from '@/db/schema';
+import type { Point } from '@/lib/statusAdapter';
+
+const T0 = 1710504000;
+
+// Record inserted batches; every row is new unless its timestamp is in `stored`
+function fakeInsert(stored: Set<number> = new Set()) {
+  const batches: InsertPosition[][] = [];
+
+  mock.method(db, 'insert', () => ({
+    values(rows: InsertPosition[]) {
+      batches.push(rows);
+      return {
+        onConflictDoNothing: () => ({
+          returning: async () => rows
+            .filter(row => !stored.has(row.ts.getTime() / 1000))
+            .map((_, id) => ({ id })),
+        }),
+      };
+    },
+  }));
+
+  return batches;
+}
+
+describe('savePositions', () => {
+  afterEach(() => mock.restoreAll());
+
+  test('stores timestamped points with rounded values', async () => {
+    const batches = fakeInsert();
+    const written = await savePositions(7, [
+      { lat: 40.5, lon: -75.25, ts: T0, alt_ft: 3500.6, hdg: 89.5, gs_kt: 120.2, vr_fpm: -500.4 },
+      { lat: 40.6, lon: -75.3, ts: T0 + 10 },
+    ]);
+
+    assert.equal(written, 2);
+    assert.deepEqual(batches[0][0], {
+      aircraftId: 7,
+      ts: new Date(T0 * 1000),
+      lat: 40.5,
+      lon: -75.25,
+      altFt: 3501,
+      hdg: 90,
+      gsKt: 120,
+      vrFpm: -500,
+      source: 'provider',
+    });
+    assert.equal(batches[0][1].altFt, null);
+  });
+
+  test('skips points without a timestamp or position', async () => {
+    const batches = fakeInsert();
+    const written = await savePositions(7, [
+      { lat: 40.5, lon: -75.25 },
+      { lat: NaN, lon: -75.25, ts: T0 },
+      { lat: 40.5, lon: -75.25, ts: T0 + 10 },
+    ]);
+
+    assert.equal(written, 1);
+    assert.deepEqual(batches[0].map(row => row.ts.getTime() / 1000), [T0 + 10]);
+  });
+
+  test('counts only rows that were not stored already', async () => {
+    fakeInsert(new Set([T0]));
+    const points: Point[] = [{ lat: 40, lon: -75, ts: T0 }, { lat: 40.1, lon: -75, ts: T0 + 10 }];
+
+    assert.equal(await savePositions(7, points, 'gpx'), 1);
+  });
+
+  test('inserts long tracks in batches', async () => {
+    const batches = fakeInsert();
+    const points = Array.from({ length: 1200 }, (_, i) => ({ lat: 40, lon: -75, ts: T0 + i }));
+
+    assert.equal(await savePositions(7, points), 1200);
+    assert.deepEqual(batches.map(rows => rows.length), [500, 500, 200]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isCircuitOpen, markProviderFailure, markProviderSuccess } from '@/lib/providers/registry';
+import { ProviderError, createInitialHealth, type FlightDataProvider } from '@/lib/providers/types';
+
+function fakeProvider(): FlightDataProvider {
+  return {
+    name: 'fake',
+    label: 'Fake',
+    capabilities: ['track'],
+    priority: 0,
+    health: createInitialHealth(),
+    isConfigured: () => true,
+  };
+}
+
+// Open the circuit with a Retry-After that has already passed
+function openedAndExpired(provider: FlightDataProvider): void {
+  markProviderFailure(provider, new ProviderError('Too many requests', 'fake', 429, true, 1));
+  provider.health.circuitOpenUntil = Date.now() - 1;
+}
+
+describe('circuit breaker', () => {
+  test('stays open until the open period has passed', () => {
+    const provider = fakeProvider();
+    markProviderFailure(provider, new ProviderError('Too many requests', 'fake', 429, true, 60000));
+
+    assert.equal(isCircuitOpen(provider), true);
+  });
+
+  test('lets one trial call through when half-open', () => {
+    const provider = fakeProvider();
+    openedAndExpired(provider);
+
+    assert.equal(isCircuitOpen(provider), false);
+    assert.equal(provider.health.circuit, 'half_open');
+    assert.equal(isCircuitOpen(provider), true);
+    assert.equal(isCircuitOpen(provider), true);
+  });
+
+  test('closes after a successful trial', () => {
+    const provider = fakeProvider();
+    openedAndExpired(provider);
+    isCircuitOpen(provider);
+    markProviderSuccess(provider);
+
+    assert.equal(provider.health.circuit, 'closed');
+    assert.equal(isCircuitOpen(provider), false);
+    assert.equal(isCircuitOpen(provider), false);
+  });
+
+  test('reopens after a failed trial', () => {
+    const provider = fakeProvider();
+    openedAndExpired(provider);
+    isCircuitOpen(provider);
+    markProviderFailure(provider, new ProviderError('Service unavailable', 'fake', 503, true));
+
+    assert.equal(provider.health.circuit, 'open');
+    assert.equal(provider.health.trialInFlight, false);
+    assert.equal(isCircuitOpen(provider), true);
+  });
+
+  test('allows another trial after a failure that does not count towards the breaker', () => {
+    const provider = fakeProvider();
+    openedAndExpired(provider);
+    isCircuitOpen(provider);
+    markProviderFailure(provider, new Error('socket hang up'));
+
+    assert.equal(provider.health.circuit, 'half_open');
+    assert.equal(isCircuitOpen(provider), false);
+  });
+});
@@ -0,0 +1,2 @@
+// Library modules create a (lazy) database client on import; unit tests never connect to it
+process.env.DATABASE_URL ??= 'postgres://localhost:5432/test';
@@ -0,0 +1,125 @@
+import { after, afterEach, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@/db';
+import { getFlightStatus, type AirportInfo, type FlightStatus } from '@/lib/statusAdapter';
+import { clearProviders, registerProvider } from '@/lib/providers/registry';
+import { ProviderError, createInitialHealth, type FlightDataProvider, type ProviderCapability } from '@/lib/providers/types';
+
+const T0 = 1710504000;
+
+const KPHL: AirportInfo = { icao: 'KPHL', name: 'Philadelphia', country: 'United States', country_code: 'US', lat: 39.872, lon: -75.241 };
+
+function fakeProvider(
+  name: string,
+  priority: number,
+  capabilities: ProviderCapability[],
+  fetchFlight?: FlightDataProvider['fetchFlight']
+): FlightDataProvider & { calls: number } {
+  const provider = {
+    name,
+    label: name,
+    capabilities,
+    priority,
+    health: createInitialHealth(),
+    calls: 0,
+    isConfigured: () => true,
+    fetchFlight: fetchFlight && (async (query: Parameters<typeof fetchFlight>[0]) => {
+      provider.calls++;
+      return fetchFlight(query);
+    }),
+  };
+  return provider;
+}
+
+const track = async (): Promise<Partial<FlightStatus>> => ({
+  points: [{ lat: 40, lon: -75, ts: T0, alt_ft: 3000 }, { lat: 40.1, lon: -75, ts: T0 + 60, alt_ft: 3500 }],
+});
+
+describe('getFlightStatus provider cascade', () => {
+  before(() => {
+    // Only the fakes below, never the built-in providers
+    clearProviders();
+
+    // Month-to-date usage totals come from the ledger; the fakes have no budget
+    mock.method(db, 'select', () => ({
+      from: () => ({ where: () => ({ groupBy: async () => [] }) }),
+    }));
+  });
+
+  afterEach(() => clearProviders());
+  after(() => mock.restoreAll());
+
+  test('each provider only fills in what earlier ones left missing', async () => {
+    const tracker = fakeProvider('tracker', 0, ['track'], track);
+    const spareTracker = fakeProvider('spare-tracker', 1, ['track'], track);
+    const schedule = fakeProvider('schedule', 2, ['metadata', 'track'], async () => ({
+      points: [{ lat: 0, lon: 0, ts: T0 }],
+      originAirport: 'KPHL',
+      destinationAirport: 'KBOS',
+      firstSeen: T0 - 600,
+    }));
+    const airports = fakeProvider('airports', 3, ['airport']);
+    airports.fetchAirport = async (code) => (code === 'KPHL' ? KPHL : null);
+    [tracker, spareTracker, schedule, airports].forEach(registerProvider);
+
+    const status = await getFlightStatus({ hex: 'a00001' });
+
+    assert.equal(spareTracker.calls, 0);
+    assert.equal(schedule.calls, 1);
+    assert.equal(status.points.length, 2);
+    assert.equal(status.points[0].lat, 40);
+    assert.equal(status.originAirport, 'KPHL');
+    assert.equal(status.originInfo?.lat, KPHL.lat);
+    assert.equal(status.destinationInfo, null);
+    assert.equal(status.firstSeen, T0 - 600);
+    assert.equal(status.tail, 'N1');
+  });
+
+  test('a failing provider falls through to the next one', async () => {
+    const broken = fakeProvider('broken', 0, ['track'], async () => {
+      throw new ProviderError('Invalid API key', 'broken', 401);
+    });
+    const tracker = fakeProvider('tracker', 1, ['track'], track);
+    [broken, tracker].forEach(registerProvider);
+
+    const status = await getFlightStatus({ hex: 'a00002' });
+
+    assert.equal(status.points.length, 2);
+    assert.equal(broken.health.status, 'failing');
+    assert.equal(tracker.health.status, 'healthy');
+  });
+
+  test('surfaces a rate limit when no provider has data', async () => {
+    registerProvider(fakeProvider('limited', 0, ['track'], async () => {
+      throw new ProviderError('Too many requests', 'limited', 429);
+    }));
+    registerProvider(fakeProvider('empty', 1, ['track'], async () => null));
+
+    await assert.rejects(getFlightStatus({ hex: 'a00003' }), /rate_limited:limited/);
+  });
+
+  test('surfaces a non-retryable error when no provider has data', async () => {
+    registerProvider(fakeProvider('broken', 0, ['track'], async () => {
+      throw new ProviderError('Invalid API key', 'broken', 401);
+    }));
+
+    await assert.rejects(getFlightStatus({ hex: 'a00004' }), /broken error: Invalid API key/);
+  });
+
+  test('reports an aircraft without track data as not found', async () => {
+    registerProvider(fakeProvider('empty', 0, ['track'], async () => null));
+
+    await assert.rejects(getFlightStatus({ hex: 'a00005' }), /Aircraft not found/);
+  });
+
+  test('skips excluded providers', async () => {
+    const tracker = fakeProvider('tracker', 0, ['track'], track);
+    const spareTracker = fakeProvider('spare-tracker', 1, ['track'], track);
+    [tracker, spareTracker].forEach(registerProvider);
+
+    await getFlightStatus({ hex: 'a00006', exclude: ['tracker'] });
+
+    assert.equal(tracker.calls, 0);
+    assert.equal(spareTracker.calls, 1);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { summarizeStatus } from '@/lib/statusSummary';
+import type { AirportInfo, FlightStatus, Point } from '@/lib/statusAdapter';
+import type { TrackAccess } from '@/lib/trackAccess';
+
+const now = 1710504000;
+
+const KPHL: AirportInfo = { icao: 'KPHL', name: 'Philadelphia', country: 'United States', country_code: 'US', lat: 39.872, lon: -75.241 };
+const KBOS: AirportInfo = { icao: 'KBOS', name: 'Boston Logan', country: 'United States', country_code: 'US', lat: 42.364, lon: -71.005 };
+
+function status(points: Point[], firstSeen: number | null, lastSeen: number | null): FlightStatus {
+  return {
+    hex: 'A1B2C3',
+    tail: 'N12345',
+    points,
+    originAirport: 'KPHL',
+    destinationAirport: 'KBOS',
+    originInfo: KPHL,
+    destinationInfo: KBOS,
+    firstSeen,
+    lastSeen,
+    waypoints: null,
+  };
+}
+
+function access(delaySeconds: number): TrackAccess {
+  return {
+    allowed: true,
+    role: delaySeconds > 0 ? 'public' : 'owner',
+    row: null,
+    viewer: { userId: null, sessionId: null, guestToken: null },
+    delaySeconds,
+    coarseRadiusNm: null,
+  };
+}
+
+describe('summarizeStatus', () => {
+  test('a delayed viewer still sees a flying aircraft as airborne', () => {
+    // The delay cut-off uses the wall clock
+    const wallClock = Math.floor(Date.now() / 1000);
+    const summary = summarizeStatus(status([
+      { lat: 39.9, lon: -75.2, ts: wallClock - 40 * 60, alt_ft: 3000 },
+      { lat: 41.0, lon: -73.0, ts: wallClock - 60, alt_ft: 9000 },
+    ], wallClock - 45 * 60, wallClock + 30 * 60), access(15 * 60), wallClock);
+
+    assert.equal(summary.airborne, true);
+    assert.equal(summary.onGround, null);
+    assert.equal(summary.position?.alt_ft, 3000);
+  });
+
+  test('a delayed viewer does not see a landing inside the delay', () => {
+    const wallClock = Math.floor(Date.now() / 1000);
+    const points: Point[] = [];
+    for (let ago = 60; ago >= 5; ago--) {
+      points.push({ lat: 42.3 - ago * 0.01, lon: -71.1, ts: wallClock - ago * 60, alt_ft: ago > 5 ? 3000 : 0 });
+    }
+    const summary = summarizeStatus(status(points, wallClock - 65 * 60, wallClock - 5 * 60), access(15 * 60), wallClock);
+
+    assert.equal(summary.airborne, true);
+    assert.equal(summary.arrivalTime, null);
+    assert.equal(summary.eta, null);
+    assert.equal(summary.onGround, null);
+    assert.ok(summary.position!.ts! <= wallClock - 15 * 60);
+  });
+
+  test('a coverage gap mid-flight is still airborne until the ETA', () => {
+    const summary = summarizeStatus(status([
+      { lat: 39.9, lon: -75.2, ts: now - 60 * 60, alt_ft: 3000 },
+      { lat: 40.8, lon: -74.0, ts: now - 30 * 60, alt_ft: 8000 },
+    ], now - 65 * 60, now + 20 * 60), access(0), now);
+
+    assert.equal(summary.airborne, true);
+    assert.equal(summary.eta, now + 20 * 60);
+  });
+
+  test('the destination is not the ground location while the ETA is ahead', () => {
+    const summary = summarizeStatus(status([
+      { lat: 40.8, lon: -74.0, ts: now - 20 * 60, alt_ft: 0 },
+    ], now - 65 * 60, now + 20 * 60), access(0), now);
+
+    assert.equal(summary.airborne, false);
+    assert.deepEqual(summary.onGround, { airport: null, since: now - 20 * 60 });
+  });
+
+  test('an arrived aircraft is on the ground at its destination since arrival', () => {
+    const summary = summarizeStatus(status([
+      { lat: 42.36, lon: -71.01, ts: now - 50 * 60, alt_ft: 0 },
+    ], now - 2 * 3600, now - 55 * 60), access(0), now);
+
+    assert.deepEqual(summary.onGround, { airport: 'KBOS', since: now - 55 * 60 });
+  });
+
+  test('an aircraft parked near its origin before departure is at the origin', () => {
+    const summary = summarizeStatus(status([
+      { lat: 39.87, lon: -75.24, ts: now - 10 * 60, alt_ft: 0 },
+    ], now + 3600, now + 2 * 3600), access(0), now);
+
+    assert.equal(summary.onGround?.airport, 'KPHL');
+  });
+});
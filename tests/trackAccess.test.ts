@@ -0,0 +1,153 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyViewRestrictions, restrictFlight, restrictPoints, type TrackAccess } from '@/lib/trackAccess';
+import type { FlightStatus, Point } from '@/lib/statusAdapter';
+import type { Flight } from '@/db/schema';
+
+function access(delaySeconds: number, coarseRadiusNm: number | null): TrackAccess {
+  return {
+    allowed: true,
+    role: 'guest',
+    row: null,
+    viewer: { userId: null, sessionId: null, guestToken: null },
+    delaySeconds,
+    coarseRadiusNm,
+  };
+}
+
+const now = Math.floor(Date.now() / 1000);
+
+describe('restrictPoints', () => {
+  const points: Point[] = [
+    { lat: 40.0, lon: -75.0, ts: now - 3600 },
+    { lat: 40.1, lon: -75.1, ts: now - 1800 },
+    { lat: 40.2, lon: -75.2, ts: now - 60 },
+  ];
+
+  test('leaves points alone without restrictions', () => {
+    assert.equal(restrictPoints(points, access(0, null)), points);
+  });
+
+  test('withholds points newer than the delay', () => {
+    assert.deepEqual(restrictPoints(points, access(15 * 60, null)), points.slice(0, 2));
+  });
+
+  test('drops points without a timestamp when delayed', () => {
+    assert.deepEqual(restrictPoints([{ lat: 40, lon: -75 }], access(60, null)), []);
+  });
+
+  test('snaps positions to the centre of a grid cell about the radius across', () => {
+    const radiusNm = 5;
+    const [snapped] = restrictPoints([{ lat: 40.03, lon: -75.02, ts: now - 60 }], access(0, radiusNm));
+    const latStep = radiusNm / 60;
+
+    // Cell centre, within half a cell of the true position
+    assert.ok(Math.abs(((snapped.lat / latStep) % 1 + 1) % 1 - 0.5) < 1e-9);
+    assert.ok(Math.abs(snapped.lat - 40.03) <= latStep / 2);
+    assert.ok(Math.abs(snapped.lon + 75.02) <= latStep / Math.cos((snapped.lat * Math.PI) / 180) / 2);
+    assert.equal(snapped.ts, now - 60);
+  });
+
+  test('collapses consecutive points in the same cell', () => {
+    const nearby: Point[] = [
+      { lat: 40.031, lon: -75.021, ts: now - 120 },
+      { lat: 40.032, lon: -75.022, ts: now - 90 },
+      { lat: 40.5, lon: -75.5, ts: now - 60 },
+    ];
+
+    assert.equal(restrictPoints(nearby, access(0, 5)).length, 2);
+  });
+});
+
+describe('applyViewRestrictions', () => {
+  test('restricts the points and keeps the rest of the status', () => {
+    const status = {
+      hex: 'A1B2C3',
+      tail: 'N12345',
+      points: [{ lat: 40, lon: -75, ts: now - 3600 }, { lat: 40.1, lon: -75.1, ts: now - 60 }],
+      originAirport: 'KPHL',
+      destinationAirport: 'KBOS',
+      originInfo: null,
+      destinationInfo: null,
+      firstSeen: now - 3700,
+      lastSeen: now + 1800,
+      waypoints: null,
+    } satisfies FlightStatus;
+
+    const restricted = applyViewRestrictions(status, access(15 * 60, null));
+
+    assert.deepEqual(restricted.points, status.points.slice(0, 1));
+    assert.equal(restricted.destinationAirport, 'KBOS');
+    assert.equal(applyViewRestrictions(status, access(0, null)), status);
+  });
+
+  test('withholds a landing time inside the delay but keeps estimates', () => {
+    const status = {
+      hex: 'A1B2C3',
+      tail: 'N12345',
+      points: [],
+      originAirport: 'KPHL',
+      destinationAirport: 'KBOS',
+      originInfo: null,
+      destinationInfo: null,
+      firstSeen: now - 3700,
+      lastSeen: now - 300,
+      waypoints: null,
+    } satisfies FlightStatus;
+
+    assert.equal(applyViewRestrictions(status, access(15 * 60, null)).lastSeen, null);
+    assert.equal(applyViewRestrictions({ ...status, lastSeen: now + 300 }, access(15 * 60, null)).lastSeen, now + 300);
+    assert.equal(applyViewRestrictions(status, access(0, 5)).lastSeen, now - 300);
+  });
+});
+
+describe('restrictFlight', () => {
+  function flight(offAgo: number, onAgo: number | null): Flight {
+    const at = (ago: number) => new Date((now - ago) * 1000);
+    return {
+      id: 1,
+      aircraftId: 1,
+      departureAirport: 'KPHL',
+      arrivalAirport: 'KBOS',
+      offAt: at(offAgo),
+      onAt: onAgo === null ? null : at(onAgo),
+      airTimeSec: onAgo === null ? null : offAgo - onAgo,
+      maxAltFt: 9500,
+      track: [],
+      pointCount: 10,
+      createdAt: at(offAgo),
+      updatedAt: at(offAgo),
+    };
+  }
+
+  test('leaves legs alone without restrictions', () => {
+    const leg = flight(3600, 600);
+    assert.equal(restrictFlight(leg, access(0, null)), leg);
+  });
+
+  test('hides a leg that took off inside the delay', () => {
+    assert.equal(restrictFlight(flight(600, null), access(15 * 60, null)), null);
+  });
+
+  test('shows a leg that landed inside the delay as in progress', () => {
+    const leg = restrictFlight(flight(3600, 600), access(15 * 60, null));
+
+    assert.equal(leg?.departureAirport, 'KPHL');
+    assert.equal(leg?.arrivalAirport, null);
+    assert.equal(leg?.onAt, null);
+    assert.equal(leg?.airTimeSec, null);
+    assert.equal(leg?.maxAltFt, null);
+  });
+
+  test('keeps a leg that landed before the delay', () => {
+    assert.equal(restrictFlight(flight(7200, 3600), access(15 * 60, null))?.arrivalAirport, 'KBOS');
+  });
+
+  test('drops the airports for coarse viewers', () => {
+    const leg = restrictFlight(flight(7200, 3600), access(0, 5));
+
+    assert.equal(leg?.departureAirport, null);
+    assert.equal(leg?.arrivalAirport, null);
+    assert.equal(leg?.airTimeSec, 3600);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  TrackImportError,
+  detectImportFormat,
+  parseForeFlightCsv,
+  parseGpx,
+  parseIgc,
+  parseTrackLog,
+} from '@/lib/trackImport';
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="test" xmlns="http://www.topografix.com/GPX/1/1"
+     xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">
+  <trk><trkseg>
+    <trkpt lat="40.5" lon="-75.25">
+      <ele>1000</ele>
+      <time>2024-03-15T12:00:00Z</time>
+      <extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>50</gpxtpx:speed><gpxtpx:course>270.4</gpxtpx:course></gpxtpx:TrackPointExtension></extensions>
+    </trkpt>
+    <trkpt lat='40.6' lon='-75.3'><time>2024-03-15T12:00:10Z</time></trkpt>
+    <trkpt lat="40.7" lon="-75.35"/>
+  </trkseg></trk>
+</gpx>`;
+
+const IGC = [
+  'AXXX001 Test Recorder',
+  'HFDTE150324',
+  'B2359584012345N07512345WA0030000350',
+  'B2359594012400N07512400WV0030500000',
+  'B0000014012500N07512500WA0031000360',
+].join('\r\n');
+
+const FOREFLIGHT = [
+  'Pilot,Jane Doe',
+  'Tail Number,N123AB',
+  '',
+  'Timestamp,Latitude,Longitude,Altitude,Course,Speed,Bank,Pitch,Horizontal Error,Vertical Error',
+  '1710504000000,40.5,-75.25,3500.4,90.2,120.6,0,0,5,5',
+  '1710504010,40.51,-75.24,3600,,121,0,0,5,5',
+  ',,,,,,,,,',
+].join('\n');
+
+describe('parseGpx', () => {
+  test('reads positions, time, elevation and Garmin speed/course', () => {
+    const points = parseGpx(GPX);
+
+    assert.equal(points.length, 3);
+    assert.deepEqual(points[0], {
+      lat: 40.5,
+      lon: -75.25,
+      ts: Date.UTC(2024, 2, 15, 12) / 1000,
+      alt_ft: 3281,
+      gs_kt: 97,
+      hdg: 270,
+    });
+    assert.equal(points[1].lat, 40.6);
+    assert.equal(points[1].alt_ft, undefined);
+  });
+
+  test('keeps self-closing points without a time for validation to drop', () => {
+    assert.equal(parseGpx(GPX)[2].ts, undefined);
+  });
+});
+
+describe('parseIgc', () => {
+  test('converts B records on the HFDTE date', () => {
+    const [first] = parseIgc(IGC);
+
+    assert.equal(first.ts, Date.UTC(2024, 2, 15, 23, 59, 58) / 1000);
+    assert.ok(Math.abs(first.lat - (40 + 12.345 / 60)) < 1e-9);
+    assert.ok(Math.abs(first.lon + (75 + 12.345 / 60)) < 1e-9);
+    assert.equal(first.alt_ft, Math.round(350 * 3.28084));
+  });
+
+  test('falls back to pressure altitude on 2D fixes', () => {
+    assert.equal(parseIgc(IGC)[1].alt_ft, Math.round(305 * 3.28084));
+  });
+
+  test('rolls over to the next day at midnight', () => {
+    assert.equal(parseIgc(IGC)[2].ts, Date.UTC(2024, 2, 16, 0, 0, 1) / 1000);
+  });
+
+  test('rejects files without a date header', () => {
+    assert.throws(() => parseIgc('B2359584012345N07512345WA0030000350'), TrackImportError);
+  });
+});
+
+describe('parseForeFlightCsv', () => {
+  test('skips the BOM and metadata block and reads the track table', () => {
+    const points = parseForeFlightCsv(`\uFEFF${FOREFLIGHT}`);
+
+    assert.equal(points.length, 2);
+    assert.deepEqual(points[0], { lat: 40.5, lon: -75.25, ts: 1710504000, alt_ft: 3500, gs_kt: 121, hdg: 90 });
+    assert.equal(points[1].ts, 1710504010);
+    assert.equal(points[1].hdg, undefined);
+  });
+
+  test('rejects CSV files without a track header', () => {
+    assert.throws(() => parseForeFlightCsv('a,b,c\n1,2,3\n'), TrackImportError);
+  });
+});
+
+describe('parseTrackLog', () => {
+  test('counts invalid points and duplicate timestamps separately', () => {
+    const gpx = `<gpx>
+      <trkpt lat="40" lon="-75"><time>2024-01-01T00:00:10Z</time></trkpt>
+      <trkpt lat="40.01" lon="-75"><time>2024-01-01T00:00:00Z</time></trkpt>
+      <trkpt lat="40.02" lon="-75"><time>2024-01-01T00:00:00Z</time></trkpt>
+      <trkpt lat="0" lon="0"><time>2024-01-01T00:00:20Z</time></trkpt>
+      <trkpt lat="40.03" lon="-75"></trkpt>
+    </gpx>`;
+    const track = parseTrackLog(gpx, 'gpx');
+
+    assert.deepEqual(track.points.map(p => p.ts), [1704067200, 1704067210]);
+    assert.equal(track.skipped, 2);
+    assert.equal(track.duplicates, 1);
+    assert.ok(track.points.every(p => p.source === 'gpx'));
+  });
+
+  test('rejects logs with timestamps in the future', () => {
+    const future = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    const gpx = `<gpx><trkpt lat="40" lon="-75"><time>${future}</time></trkpt></gpx>`;
+
+    assert.throws(() => parseTrackLog(gpx, 'gpx'), TrackImportError);
+  });
+
+  test('rejects logs without usable points', () => {
+    assert.throws(() => parseTrackLog('<gpx></gpx>', 'gpx'), TrackImportError);
+  });
+});
+
+describe('detectImportFormat', () => {
+  test('uses the file extension first', () => {
+    assert.equal(detectImportFormat('flight.GPX', ''), 'gpx');
+    assert.equal(detectImportFormat('flight.igc', ''), 'igc');
+    assert.equal(detectImportFormat('flight.csv', ''), 'foreflight');
+  });
+
+  test('falls back to the content', () => {
+    assert.equal(detectImportFormat('upload', GPX), 'gpx');
+    assert.equal(detectImportFormat('upload', IGC), 'igc');
+    assert.equal(detectImportFormat('upload', FOREFLIGHT), 'foreflight');
+    assert.equal(detectImportFormat('upload', 'hello'), null);
+  });
+});